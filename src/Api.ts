@@ -0,0 +1,112 @@
+import { EventRef, Events } from 'obsidian';
+import DynamicTimetable from './main';
+import { Task, findCurrentTask, taskFunctions } from './TaskManager';
+
+/** Payloads of the events the API triggers, by event name. */
+export type DynamicTimetableEvents = {
+  // Triggered for the next task after a Complete.
+  'task-started': (task: Task) => void;
+  'task-completed': (task: Task, elapsedMinutes: number) => void;
+  'task-interrupted': (
+    task: Task,
+    elapsedMinutes: number,
+    remainingMinutes: number
+  ) => void;
+  overdue: (task: Task, overrunMinutes: number) => void;
+  'day-finished': (lastTask: Task) => void;
+};
+
+export type DynamicTimetableEventName = keyof DynamicTimetableEvents;
+
+/**
+ * The API for other plugins and scripts, available as
+ * `app.plugins.plugins['dynamic-timetable'].api`. Times are in minutes.
+ */
+export class DynamicTimetableApi extends Events {
+  private plugin: DynamicTimetable;
+  private overdueTaskKey: string | null = null;
+
+  constructor(plugin: DynamicTimetable) {
+    super();
+    this.plugin = plugin;
+  }
+
+  on<K extends DynamicTimetableEventName>(
+    name: K,
+    callback: DynamicTimetableEvents[K],
+    ctx?: unknown
+  ): EventRef {
+    return super.on(name, callback, ctx);
+  }
+
+  off<K extends DynamicTimetableEventName>(
+    name: K,
+    callback: DynamicTimetableEvents[K]
+  ): void {
+    super.off(name, callback);
+  }
+
+  trigger<K extends DynamicTimetableEventName>(
+    name: K,
+    ...data: Parameters<DynamicTimetableEvents[K]>
+  ): void {
+    super.trigger(name, ...data);
+  }
+
+  /** Parses the task sources afresh. */
+  async getTasks(): Promise<Task[]> {
+    return taskFunctions(this.plugin).initializeTasks();
+  }
+
+  async getCurrentTask(): Promise<Task | null> {
+    return findCurrentTask(await this.getTasks()) ?? null;
+  }
+
+  async getElapsedTime(): Promise<number> {
+    if (!this.plugin.targetFile) {
+      return 0;
+    }
+    const content = await this.plugin.app.vault.cachedRead(
+      this.plugin.targetFile
+    );
+    return taskFunctions(this.plugin).getElapsedTime(content);
+  }
+
+  /** Negative once the current task has run past its estimate. */
+  async getRemainingTime(): Promise<number | null> {
+    const task = await this.getCurrentTask();
+    if (!task?.estimate) {
+      return null;
+    }
+    return parseFloat(task.estimate) - (await this.getElapsedTime());
+  }
+
+  async completeTask(): Promise<void> {
+    const task = await this.getCurrentTask();
+    if (task) {
+      await taskFunctions(this.plugin).completeTask(task);
+    }
+  }
+
+  async interruptTask(): Promise<void> {
+    await taskFunctions(this.plugin).interruptTask();
+  }
+
+  /** Triggers `overdue` once when the current task passes its end time. */
+  checkOverdue(): void {
+    const task = findCurrentTask(this.plugin.tasks);
+    if (!task?.endTime || task.pauses.some((pause) => pause.end === null)) {
+      return;
+    }
+    const key = [
+      task.filePath,
+      task.lineNumber,
+      task.startTime?.getTime(),
+    ].join(':');
+    const overrun = (Date.now() - task.endTime.getTime()) / 60000;
+    if (overrun > 0 && key !== this.overdueTaskKey) {
+      this.overdueTaskKey = key;
+      this.trigger('overdue', task, overrun);
+    }
+  }
+}
@@ -2,6 +2,7 @@ import React from 'react';
 
 type BufferTimeRowProps = {
   bufferTime: number | null;
+  label?: string;
 };
 
 const formatTime = (minutes: number): string => {
@@ -10,9 +11,12 @@ const formatTime = (minutes: number): string => {
   return `${hours}h${remainingMinutes}min`;
 };
 
-const BufferTimeRow: React.FC<BufferTimeRowProps> = ({ bufferTime }) => (
+const BufferTimeRow: React.FC<BufferTimeRowProps> = ({
+  bufferTime,
+  label = 'Buffer Time',
+}) => (
   <tr className="buffer-time dt-buffer-time">
-    <td>Buffer Time</td>
+    <td>{label}</td>
     <td colSpan={3} style={{ textAlign: 'center' }}>
       {bufferTime !== null ? formatTime(bufferTime) : '0h0min'}
     </td>
@@ -26,6 +26,7 @@ export const ButtonContainer = ({ commandsManager }: ButtonContainerProps) => {
   const completeButtonRef = useRef(null);
   const interruptButtonRef = useRef(null);
   const initButtonRef = useRef(null);
+  const undoButtonRef = useRef(null);
 
   return (
     <div className="dt-button-container">
@@ -39,6 +40,11 @@ export const ButtonContainer = ({ commandsManager }: ButtonContainerProps) => {
         onClick={() => commandsManager.interruptTask()}
         icon="circle-slash"
       />
+      <ButtonWithIcon
+        buttonRef={undoButtonRef}
+        onClick={() => commandsManager.undoLastAction()}
+        icon="undo-2"
+      />
       <ButtonWithIcon
         buttonRef={initButtonRef}
         onClick={() => commandsManager.initializeTimetableView()}
@@ -1,6 +1,11 @@
 import { Notice } from 'obsidian';
 import DynamicTimetable from './main';
-import { taskFunctions } from './TaskManager';
+import { findCurrentTask, taskFunctions } from './TaskManager';
+import { dailyNoteFunctions } from './DailyNoteManager';
+import { exportFunctions } from './ExportManager';
+import { routineFunctions } from './RoutineManager';
+import { RoutineSuggestModal } from './RoutineSuggestModal';
+import { undoFunctions } from './UndoManager';
 
 export class CommandsManager {
   private plugin: DynamicTimetable;
@@ -27,6 +32,14 @@ export class CommandsManager {
     }
   }
 
+  async toggleViewMode(): Promise<void> {
+    await this.plugin.updateSetting(
+      'viewMode',
+      this.plugin.settings.viewMode === 'timeline' ? 'table' : 'timeline'
+    );
+    this.plugin.timetableViewComponentRef.current?.scrollToFirstUncompletedTask();
+  }
+
   initializeTimetableView(): void {
     this.plugin.initTimetableView();
     this.plugin.timetableViewComponentRef.current?.scrollToFirstUncompletedTask();
@@ -35,9 +48,7 @@ export class CommandsManager {
 
   completeTask(): void {
     const taskManager = taskFunctions(this.plugin);
-    const firstUncompletedTask = this.plugin.tasks.find(
-      (task) => !task.isCompleted
-    );
+    const firstUncompletedTask = findCurrentTask(this.plugin.tasks);
     if (firstUncompletedTask) {
       taskManager.completeTask(firstUncompletedTask);
       this.plugin.timetableViewComponentRef.current?.scrollToFirstUncompletedTask();
@@ -46,12 +57,60 @@ export class CommandsManager {
 
   interruptTask(): void {
     const taskManager = taskFunctions(this.plugin);
-    const firstUncompletedTask = this.plugin.tasks.find(
-      (task) => !task.isCompleted
-    );
+    const firstUncompletedTask = findCurrentTask(this.plugin.tasks);
     if (firstUncompletedTask) {
       taskManager.interruptTask();
       this.plugin.timetableViewComponentRef.current?.scrollToFirstUncompletedTask();
     }
   }
+
+  pauseTask(): void {
+    const taskManager = taskFunctions(this.plugin);
+    taskManager.pauseTask();
+  }
+
+  resumeTask(): void {
+    const taskManager = taskFunctions(this.plugin);
+    taskManager.resumeTask();
+  }
+
+  writeInferredEstimates(): void {
+    const taskManager = taskFunctions(this.plugin);
+    taskManager.writeInferredEstimates();
+  }
+
+  exportICalendar(): void {
+    exportFunctions(this.plugin).exportICalendar();
+  }
+
+  exportTimeLog(): void {
+    exportFunctions(this.plugin).exportTimeLog();
+  }
+
+  async carryOverTasks(): Promise<void> {
+    const dailyNotes = dailyNoteFunctions(this.plugin);
+    if (await dailyNotes.carryOverTasks()) {
+      await this.plugin.initTimetableView();
+    }
+  }
+
+  async undoLastAction(): Promise<void> {
+    await undoFunctions(this.plugin).undo();
+  }
+
+  async insertRoutine(): Promise<void> {
+    const routineManager = routineFunctions(this.plugin);
+    const routines = await routineManager.getRoutines();
+    if (routines.length === 0) {
+      new Notice('No routines found. Set the routine file in the settings.');
+      return;
+    }
+    if (routines.length === 1) {
+      await routineManager.insertRoutine(routines[0]);
+      return;
+    }
+    new RoutineSuggestModal(this.plugin.app, routines, (routine) =>
+      routineManager.insertRoutine(routine)
+    ).open();
+  }
 }
@@ -0,0 +1,34 @@
+import { App, Modal, Setting } from 'obsidian';
+
+export class ConfirmModal extends Modal {
+  constructor(
+    app: App,
+    private title: string,
+    private message: string,
+    private onConfirm: () => void
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    this.titleEl.setText(this.title);
+    this.contentEl.createEl('p', { text: this.message });
+    new Setting(this.contentEl)
+      .addButton((button) =>
+        button
+          .setButtonText('Yes')
+          .setCta()
+          .onClick(() => {
+            this.close();
+            this.onConfirm();
+          })
+      )
+      .addButton((button) =>
+        button.setButtonText('No').onClick(() => this.close())
+      );
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
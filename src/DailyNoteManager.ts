@@ -0,0 +1,149 @@
+import { Notice, TFile, moment, normalizePath } from 'obsidian';
+import DynamicTimetable from './main';
+
+export const dailyNoteFunctions = (plugin: DynamicTimetable) => {
+  const getFolder = (): string =>
+    normalizePath(plugin.settings.dailyNoteFolder || '/');
+
+  const getDailyNotePath = (date: moment.Moment): string => {
+    const fileName = `${date.format(plugin.settings.dailyNoteFormat)}.md`;
+    const folder = getFolder();
+    return normalizePath(folder === '/' ? fileName : `${folder}/${fileName}`);
+  };
+
+  const getDailyNoteDate = (file: TFile): moment.Moment | null => {
+    const folder = getFolder();
+    if (folder !== '/' && !file.path.startsWith(`${folder}/`)) {
+      return null;
+    }
+    const relativePath = (
+      folder === '/' ? file.path : file.path.slice(folder.length + 1)
+    ).replace(/\.md$/, '');
+    const date = moment(relativePath, plugin.settings.dailyNoteFormat, true);
+    return date.isValid() ? date : null;
+  };
+
+  const getTodaysNote = (): TFile | null => {
+    const file = plugin.app.vault.getAbstractFileByPath(
+      getDailyNotePath(moment())
+    );
+    return file instanceof TFile ? file : null;
+  };
+
+  const getPreviousDailyNote = (): TFile | null => {
+    const today = moment().startOf('day');
+    let previousNote: TFile | null = null;
+    let previousDate: moment.Moment | null = null;
+    for (const file of plugin.app.vault.getMarkdownFiles()) {
+      const date = getDailyNoteDate(file);
+      if (
+        date &&
+        date.isBefore(today) &&
+        (!previousDate || date.isAfter(previousDate))
+      ) {
+        previousNote = file;
+        previousDate = date;
+      }
+    }
+    return previousNote;
+  };
+
+  const insertCarriedOverLines = (content: string, carried: string[]) => {
+    const lines = content.split('\n');
+    const dateDelimiter = plugin.settings.dateDelimiter
+      ? new RegExp(plugin.settings.dateDelimiter)
+      : null;
+    const delimiterIndex =
+      plugin.settings.carryOverAfterDateDelimiter && dateDelimiter
+        ? lines.findIndex((line) => dateDelimiter.test(line.trim()))
+        : -1;
+
+    if (delimiterIndex !== -1) {
+      lines.splice(delimiterIndex + 1, 0, ...carried);
+    } else {
+      while (lines.length > 0 && lines[lines.length - 1].trim() === '') {
+        lines.pop();
+      }
+      lines.push(...carried);
+    }
+    return lines.join('\n');
+  };
+
+  const markCarriedOver = async () => {
+    plugin.settings.lastCarryOverDate = moment().format('YYYY-MM-DD');
+    await plugin.saveData(plugin.settings);
+  };
+
+  // Run by hand, today's note is created if needed and a missing previous
+  // note is reported. The automatic run stays silent.
+  const carryOverTasks = async (manual = true): Promise<boolean> => {
+    const previousNote = getPreviousDailyNote();
+    if (!previousNote) {
+      if (manual) {
+        new Notice('No previous daily note found.');
+      } else {
+        await markCarriedOver();
+      }
+      return false;
+    }
+
+    let todaysNote = getTodaysNote();
+    if (!todaysNote && !manual) {
+      return false;
+    }
+    const todaysContent = todaysNote
+      ? await plugin.app.vault.cachedRead(todaysNote)
+      : '';
+    const existingLines = new Set(
+      todaysContent.split('\n').map((line) => line.trim())
+    );
+
+    const previousContent = await plugin.app.vault.cachedRead(previousNote);
+    const carried = previousContent
+      .split('\n')
+      .filter((line) => /^\s*[-+*] \[ \]/.test(line))
+      .filter((line) => !existingLines.has(line.trim()));
+
+    if (carried.length > 0) {
+      const content = insertCarriedOverLines(todaysContent, carried);
+      if (todaysNote) {
+        await plugin.app.vault.modify(todaysNote, content);
+      } else {
+        const path = getDailyNotePath(moment());
+        const parentPath = path.substring(0, path.lastIndexOf('/'));
+        if (parentPath && !plugin.app.vault.getAbstractFileByPath(parentPath)) {
+          await plugin.app.vault.createFolder(parentPath);
+        }
+        todaysNote = await plugin.app.vault.create(path, content);
+      }
+    }
+
+    await markCarriedOver();
+    new Notice(
+      `Carried over ${carried.length} unfinished task(s) from ${previousNote.basename}.`
+    );
+    return true;
+  };
+
+  // Runs at most once a day, and only after today's note has been created.
+  const autoCarryOver = async () => {
+    if (
+      plugin.settings.taskSource !== 'dailyNote' ||
+      !plugin.settings.autoCarryOver ||
+      plugin.settings.lastCarryOverDate === moment().format('YYYY-MM-DD') ||
+      !getTodaysNote()
+    ) {
+      return;
+    }
+    await carryOverTasks(false);
+  };
+
+  return {
+    getDailyNotePath,
+    getDailyNoteDate,
+    getTodaysNote,
+    getPreviousDailyNote,
+    carryOverTasks,
+    autoCarryOver,
+  };
+};
@@ -0,0 +1,71 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+type EditableCellProps = {
+  value: string;
+  editable: boolean;
+  placeholder?: string;
+  onSave: (value: string) => void;
+};
+
+const EditableCell: React.FC<EditableCellProps> = ({
+  value,
+  editable,
+  placeholder,
+  onSave,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(value);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    if (isEditing && inputRef.current) {
+      inputRef.current.focus();
+      inputRef.current.select();
+    }
+  }, [isEditing]);
+
+  const startEditing = () => {
+    if (!editable) return;
+    setDraft(value);
+    setIsEditing(true);
+  };
+
+  const save = () => {
+    setIsEditing(false);
+    if (draft.trim() !== value) {
+      onSave(draft.trim());
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      save();
+    } else if (event.key === 'Escape') {
+      setIsEditing(false);
+    }
+  };
+
+  return (
+    <td
+      className={editable ? 'dt-editable-cell' : ''}
+      style={{ textAlign: 'center' }}
+      onDoubleClick={startEditing}>
+      {isEditing ? (
+        <input
+          ref={inputRef}
+          className="dt-inline-editor"
+          type="text"
+          value={draft}
+          placeholder={placeholder}
+          onChange={(event) => setDraft(event.target.value)}
+          onBlur={save}
+          onKeyDown={handleKeyDown}
+        />
+      ) : (
+        value
+      )}
+    </td>
+  );
+};
+
+export default EditableCell;
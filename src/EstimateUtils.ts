@@ -0,0 +1,48 @@
+export type EstimateFormat = 'minutes' | 'hoursMinutes' | 'decimalHours';
+
+// Matches `90`, `1.5h`, `45m`, `90s` and combinations such as `1h30m`.
+export const ESTIMATE_PATTERN =
+  '(?:\\d+(?:\\.\\d+)?\\s*[hms](?![a-zA-Z])\\s*)+|\\d+(?:\\.\\d+)?';
+
+const UNIT_MINUTES: Record<string, number> = { h: 60, m: 1, s: 1 / 60 };
+
+export const parseEstimateToMinutes = (estimate: string): number | null => {
+  const text = estimate.trim();
+  if (/^\d+(?:\.\d+)?$/.test(text)) {
+    return parseFloat(text);
+  }
+
+  const unitRegex = /(\d+(?:\.\d+)?)\s*([hms])/g;
+  let minutes = 0;
+  let found = false;
+  let match;
+  while ((match = unitRegex.exec(text)) !== null) {
+    minutes += parseFloat(match[1]) * UNIT_MINUTES[match[2]];
+    found = true;
+  }
+  return found ? minutes : null;
+};
+
+export const formatEstimate = (
+  minutes: number,
+  format: EstimateFormat
+): string => {
+  const totalSeconds = Math.max(0, Math.round(minutes * 60));
+  switch (format) {
+    case 'hoursMinutes': {
+      const hours = Math.floor(totalSeconds / 3600);
+      const mins = Math.floor((totalSeconds % 3600) / 60);
+      const seconds = totalSeconds % 60;
+      const parts = [
+        hours ? `${hours}h` : '',
+        mins ? `${mins}m` : '',
+        seconds ? `${seconds}s` : '',
+      ].join('');
+      return parts || '0m';
+    }
+    case 'decimalHours':
+      return `${parseFloat((totalSeconds / 3600).toFixed(2))}h`;
+    default:
+      return Math.round(totalSeconds / 60).toString();
+  }
+};
@@ -0,0 +1,185 @@
+import { Notice, TFile, moment, normalizePath } from 'obsidian';
+import DynamicTimetable from './main';
+import { Task, taskFunctions } from './TaskManager';
+import { TaskParser } from './TaskParser';
+import { CalendarEvent, buildICalendar } from './ICalendar';
+import { dailyNoteFunctions } from './DailyNoteManager';
+
+export type ICalendarExportMode = 'planned' | 'actual' | 'both';
+
+export type TimeLogFormat = 'csv' | 'json';
+
+type TimeLogEntry = {
+  task: string;
+  categories: string[];
+  start: string;
+  end: string;
+  duration: number;
+  file: string;
+};
+
+const TIME_LOG_COLUMNS: (keyof TimeLogEntry)[] = [
+  'task',
+  'categories',
+  'start',
+  'end',
+  'duration',
+  'file',
+];
+
+const escapeCsvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const exportFunctions = (plugin: DynamicTimetable) => {
+  const getExportPath = (fileName: string): string => {
+    const folder = normalizePath(plugin.settings.exportFolder || '/');
+    return normalizePath(folder === '/' ? fileName : `${folder}/${fileName}`);
+  };
+
+  const writeFile = async (path: string, content: string) => {
+    const existingFile = plugin.app.vault.getAbstractFileByPath(path);
+    if (existingFile instanceof TFile) {
+      await plugin.app.vault.modify(existingFile, content);
+      return;
+    }
+    const parentPath = path.substring(0, path.lastIndexOf('/'));
+    if (parentPath && !plugin.app.vault.getAbstractFileByPath(parentPath)) {
+      await plugin.app.vault.createFolder(parentPath);
+    }
+    await plugin.app.vault.create(path, content);
+  };
+
+  const toCalendarEvent = (task: Task, kind: string): CalendarEvent | null => {
+    if (!task.startTime || !task.endTime) {
+      return null;
+    }
+    const uid = `${moment(task.startTime).format('YYYYMMDD')}-${kind}-${
+      task.filePath
+    }-${task.lineNumber}`.replace(/[^A-Za-z0-9-]/g, '_');
+    return {
+      uid: `${uid}@dynamic-timetable`,
+      summary: task.originalTaskName,
+      start: task.startTime,
+      end: task.endTime,
+      categories: task.categories,
+    };
+  };
+
+  const exportICalendar = async () => {
+    const taskManager = taskFunctions(plugin);
+    const tasks = (await taskManager.initializeTasks()).filter(
+      (task) => task.children.length === 0 && !task.isCalendarEvent
+    );
+    const mode = plugin.settings.icsExportMode;
+    const events = tasks
+      .filter((task) =>
+        task.isCompleted ? mode !== 'planned' : mode !== 'actual'
+      )
+      .map((task) =>
+        toCalendarEvent(task, task.isCompleted ? 'actual' : 'planned')
+      )
+      .filter((event): event is CalendarEvent => event !== null);
+
+    if (events.length === 0) {
+      new Notice('No tasks with start and end times to export.');
+      return;
+    }
+
+    const path = getExportPath(
+      `Timetable ${moment().format('YYYY-MM-DD')}.ics`
+    );
+    await writeFile(path, buildICalendar(events));
+    new Notice(`Exported ${events.length} event(s) to ${path}`);
+  };
+
+  /**
+   * Collects every completed task from the task sources. Start times come
+   * from the `@ HH:MM` written on completion, dated by the daily note (or
+   * today) plus one day per date delimiter above the task.
+   */
+  const collectTimeLog = async (): Promise<TimeLogEntry[]> => {
+    const taskManager = taskFunctions(plugin);
+    const dailyNotes = dailyNoteFunctions(plugin);
+    const sources = await taskManager.readSources();
+
+    return sources.flatMap((source) => {
+      const file = plugin.app.vault.getAbstractFileByPath(source.filePath);
+      // Each note is read with its own frontmatter overrides.
+      const taskParser = TaskParser.fromSettings(
+        plugin.getEffectiveSettings(file instanceof TFile ? file : null)
+      );
+      const date =
+        (file instanceof TFile && dailyNotes.getDailyNoteDate(file)) ||
+        moment().startOf('day');
+      return taskParser
+        .filterAndParseSources([source])
+        .filter((task) => task.isCompleted && task.children.length === 0)
+        .map((task) => {
+          const duration = parseFloat(task.estimate || '0');
+          const start =
+            task.originalStartTime && task.startTime
+              ? date
+                  .clone()
+                  .add(
+                    taskParser.getDayOffset(source.content, task.lineNumber),
+                    'days'
+                  )
+                  .set({
+                    hour: task.startTime.getHours(),
+                    minute: task.startTime.getMinutes(),
+                  })
+                  .toDate()
+              : null;
+          const end = start
+            ? new Date(start.getTime() + duration * 60000)
+            : null;
+          return {
+            task: task.originalTaskName,
+            categories: task.categories,
+            start: start ? moment(start).format('YYYY-MM-DD HH:mm') : '',
+            end: end ? moment(end).format('YYYY-MM-DD HH:mm') : '',
+            duration: duration,
+            file: task.filePath,
+          };
+        });
+    });
+  };
+
+  const formatTimeLog = (
+    entries: TimeLogEntry[],
+    format: TimeLogFormat
+  ): string => {
+    if (format === 'json') {
+      return JSON.stringify(entries, null, 2);
+    }
+    const rows = entries.map((entry) =>
+      TIME_LOG_COLUMNS.map((column) => {
+        const value = entry[column];
+        return escapeCsvField(
+          Array.isArray(value) ? value.join(' ') : value.toString()
+        );
+      }).join(',')
+    );
+    return [TIME_LOG_COLUMNS.join(','), ...rows].join('\n') + '\n';
+  };
+
+  const exportTimeLog = async () => {
+    const entries = await collectTimeLog();
+    if (entries.length === 0) {
+      new Notice('No completed tasks to export.');
+      return;
+    }
+
+    const format = plugin.settings.timeLogExportFormat;
+    const path = getExportPath(
+      `Time Log ${moment().format('YYYY-MM-DD')}.${format}`
+    );
+    await writeFile(path, formatTimeLog(entries, format));
+    new Notice(`Exported ${entries.length} completed task(s) to ${path}`);
+  };
+
+  return {
+    exportICalendar,
+    exportTimeLog,
+  };
+};
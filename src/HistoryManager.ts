@@ -0,0 +1,163 @@
+import { TFile, moment } from 'obsidian';
+import DynamicTimetable, { DynamicTimetableSettings } from './main';
+import {
+  CategoryPerformance,
+  Task,
+  TaskParser,
+  getPlannedMinutes,
+} from './TaskParser';
+import { dailyNoteFunctions } from './DailyNoteManager';
+
+export type HistoryRange = 'current' | 'today' | 'week' | 'month' | 'custom';
+
+export type DailyTotal = {
+  date: string;
+  plannedTime: number;
+  actualTime: number;
+};
+
+export type HistoryStatistics = {
+  categories: Record<string, CategoryPerformance>;
+  days: DailyTotal[];
+};
+
+type CachedNote = {
+  mtime: number;
+  settingsKey: string;
+  tasks: Task[];
+};
+
+// Parsed daily notes are kept between renders and reused until the note or
+// the parser settings change.
+const noteCache = new Map<string, CachedNote>();
+
+export const historyFunctions = (plugin: DynamicTimetable) => {
+  const dailyNotes = dailyNoteFunctions(plugin);
+
+  const getRangeDates = (
+    range: HistoryRange,
+    customStart: string,
+    customEnd: string
+  ): { start: moment.Moment; end: moment.Moment } => {
+    const today = moment().startOf('day');
+    switch (range) {
+      case 'week':
+        return { start: today.clone().startOf('week'), end: today };
+      case 'month':
+        return { start: today.clone().startOf('month'), end: today };
+      case 'custom': {
+        const start = moment(customStart, 'YYYY-MM-DD', true);
+        const end = moment(customEnd, 'YYYY-MM-DD', true);
+        return {
+          start: start.isValid() ? start : today,
+          end: end.isValid() ? end : today,
+        };
+      }
+      default:
+        return { start: today, end: today };
+    }
+  };
+
+  const getSettingsKey = (settings: DynamicTimetableSettings) =>
+    [
+      settings.taskEstimateDelimiter,
+      settings.startTimeDelimiter,
+      settings.taskSyntaxes.join(','),
+      settings.dateDelimiter,
+      settings.showUntilRegex,
+    ].join('\n');
+
+  // Each note is read with its own frontmatter overrides.
+  const parseNote = async (file: TFile, date: Date): Promise<Task[]> => {
+    const settings = plugin.getEffectiveSettings(file);
+    const settingsKey = getSettingsKey(settings);
+    const cached = noteCache.get(file.path);
+    if (
+      cached &&
+      cached.mtime === file.stat.mtime &&
+      cached.settingsKey === settingsKey
+    ) {
+      return cached.tasks;
+    }
+
+    const content = await plugin.app.vault.cachedRead(file);
+    const taskParser = TaskParser.fromSettings(settings);
+    const tasks = taskParser.filterAndParseSources([
+      { filePath: file.path, content, date },
+    ]);
+    noteCache.set(file.path, { mtime: file.stat.mtime, settingsKey, tasks });
+    return tasks;
+  };
+
+  const loadTasks = async (
+    start: moment.Moment,
+    end: moment.Moment
+  ): Promise<{ date: moment.Moment; tasks: Task[] }[]> => {
+    const notes = plugin.app.vault
+      .getMarkdownFiles()
+      .map((file) => ({ file, date: dailyNotes.getDailyNoteDate(file) }))
+      .filter(
+        (note): note is { file: TFile; date: moment.Moment } =>
+          note.date !== null && note.date.isBetween(start, end, 'day', '[]')
+      )
+      .sort((a, b) => a.date.valueOf() - b.date.valueOf());
+
+    return Promise.all(
+      notes.map(async ({ file, date }) => ({
+        date,
+        tasks: await parseNote(file, date.toDate()),
+      }))
+    );
+  };
+
+  /**
+   * Sums up the completed tasks of every daily note in the range: the actual
+   * time and the estimate recorded when each was completed. Tasks after a
+   * date delimiter are counted on the day their start time falls on.
+   */
+  const getStatistics = async (
+    range: HistoryRange,
+    customStart: string,
+    customEnd: string
+  ): Promise<HistoryStatistics> => {
+    const { start, end } = getRangeDates(range, customStart, customEnd);
+    const notes = await loadTasks(start, end);
+    const taskParser = TaskParser.fromSettings(plugin.getEffectiveSettings());
+    const days: Record<string, DailyTotal> = {};
+
+    for (
+      const day = start.clone();
+      day.isSameOrBefore(end, 'day');
+      day.add(1, 'day')
+    ) {
+      const date = day.format('YYYY-MM-DD');
+      days[date] = { date, plannedTime: 0, actualTime: 0 };
+    }
+
+    const allTasks: Task[] = [];
+    notes.forEach(({ date, tasks }) => {
+      tasks
+        .filter((task) => task.children.length === 0 && task.isCompleted)
+        .forEach((task) => {
+          const taskDate = moment(task.startTime || date.toDate()).format(
+            'YYYY-MM-DD'
+          );
+          const day = days[taskDate];
+          if (!day) return;
+          day.plannedTime += getPlannedMinutes(task);
+          day.actualTime += parseFloat(task.estimate || '0');
+          allTasks.push(task);
+        });
+    });
+
+    return {
+      categories: taskParser.getCategoryPerformance(allTasks),
+      days: Object.values(days),
+    };
+  };
+
+  return {
+    getRangeDates,
+    getStatistics,
+  };
+};
@@ -0,0 +1,115 @@
+import { Notice, moment } from 'obsidian';
+import DynamicTimetable from './main';
+import { Task } from './TaskManager';
+
+export type HookName =
+  | 'taskStartHook'
+  | 'taskCompleteHook'
+  | 'taskInterruptHook'
+  | 'overdueHook'
+  | 'dayFinishedHook';
+
+type HookContext = {
+  task: Task;
+  previousTask: Task | null;
+  elapsedMinutes?: number;
+};
+
+const formatTime = (date: Date | null): string =>
+  date ? moment(date).format('HH:mm') : '';
+
+const getPlaceholderValues = ({
+  task,
+  previousTask,
+  elapsedMinutes,
+}: HookContext): Record<string, string> => {
+  const estimate = parseFloat(task.estimate || '0');
+  return {
+    taskName: task.task,
+    categories: task.categories.join(','),
+    minutes: Math.round(estimate).toString(),
+    seconds: Math.round(estimate * 60).toString(),
+    startTime: formatTime(task.startTime),
+    endTime: formatTime(task.endTime),
+    elapsedMinutes:
+      elapsedMinutes === undefined ? '' : Math.round(elapsedMinutes).toString(),
+    elapsedSeconds:
+      elapsedMinutes === undefined
+        ? ''
+        : Math.round(elapsedMinutes * 60).toString(),
+    previousTaskName: previousTask?.task || '',
+  };
+};
+
+export const hookFunctions = (plugin: DynamicTimetable) => {
+  // The task completed or interrupted last, for `{{previousTaskName}}`.
+  let previousTask: Task | null = null;
+
+  const fillPlaceholders = (url: string, values: Record<string, string>) =>
+    url.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) =>
+      name in values ? encodeURIComponent(values[name]) : placeholder
+    );
+
+  // Each line of a hook is a URL to open or the ID of a command to run.
+  const runHook = (hook: HookName, context: HookContext) => {
+    const lines = ((plugin.settings[hook] as string) || '')
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean);
+    if (lines.length === 0) {
+      return;
+    }
+
+    const values = getPlaceholderValues(context);
+    lines.forEach((line) => {
+      if (line.includes('://')) {
+        window.open(fillPlaceholders(line, values));
+        return;
+      }
+      const commands = (plugin.app as any).commands;
+      if (!commands.executeCommandById(line)) {
+        new Notice(`Hook command not found: ${line}`);
+      }
+    });
+  };
+
+  /** Runs the configured hooks on the transitions the API reports. */
+  const registerHooks = () => {
+    const { api } = plugin;
+    plugin.registerEvent(
+      api.on('task-started', (task) =>
+        runHook('taskStartHook', { task, previousTask })
+      )
+    );
+    plugin.registerEvent(
+      api.on('task-completed', (task, elapsedMinutes) => {
+        runHook('taskCompleteHook', { task, previousTask, elapsedMinutes });
+        previousTask = task;
+      })
+    );
+    plugin.registerEvent(
+      api.on('task-interrupted', (task, elapsedMinutes) => {
+        runHook('taskInterruptHook', { task, previousTask, elapsedMinutes });
+        previousTask = task;
+      })
+    );
+    plugin.registerEvent(
+      api.on('overdue', (task, overrunMinutes) =>
+        runHook('overdueHook', {
+          task,
+          previousTask,
+          elapsedMinutes: parseFloat(task.estimate || '0') + overrunMinutes,
+        })
+      )
+    );
+    plugin.registerEvent(
+      api.on('day-finished', (task) =>
+        runHook('dayFinishedHook', { task, previousTask })
+      )
+    );
+  };
+
+  return {
+    registerHooks,
+  };
+};
@@ -0,0 +1,145 @@
+export type CalendarEvent = {
+  uid: string;
+  summary: string;
+  start: Date;
+  end: Date;
+  categories: string[];
+};
+
+const formatDateTime = (date: Date): string =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+
+const escapeText = (text: string): string =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// RFC 5545 limits content lines to 75 octets; longer lines are folded.
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+export const buildICalendar = (events: CalendarEvent[]): string => {
+  const now = formatDateTime(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Dynamic Timetable//Obsidian//EN',
+    'CALSCALE:GREGORIAN',
+  ];
+  events.forEach((event) => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${now}`,
+      `DTSTART:${formatDateTime(event.start)}`,
+      `DTEND:${formatDateTime(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+    if (event.categories.length > 0) {
+      lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+    }
+    lines.push('END:VEVENT');
+  });
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+const unescapeText = (text: string): string =>
+  text.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char.toLowerCase() === 'n' ? '\n' : char
+  );
+
+// Times with a TZID are read as local time; only UTC (`Z`) is converted.
+const parseDateTime = (value: string): Date | null => {
+  const match = value.match(
+    /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/
+  );
+  if (!match) {
+    return null;
+  }
+  const [year, month, day, hours, minutes, seconds] = match
+    .slice(1, 7)
+    .map(Number);
+  return match[7]
+    ? new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds))
+    : new Date(year, month - 1, day, hours, minutes, seconds);
+};
+
+const parseDuration = (value: string): number | null => {
+  const match = value.match(
+    /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+  );
+  if (!match) {
+    return null;
+  }
+  const [weeks, days, hours, minutes, seconds] = match
+    .slice(1)
+    .map((part) => Number(part || 0));
+  return (
+    ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000
+  );
+};
+
+/**
+ * Reads the timed events of an iCalendar file. All-day and cancelled events
+ * are skipped, and recurrence rules are not expanded.
+ */
+export const parseICalendar = (text: string): CalendarEvent[] => {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: CalendarEvent[] = [];
+  let properties: Record<string, string> | null = null;
+
+  lines.forEach((line) => {
+    if (line === 'BEGIN:VEVENT') {
+      properties = {};
+      return;
+    }
+    if (line === 'END:VEVENT' && properties) {
+      const start = parseDateTime(properties.DTSTART || '');
+      const duration = parseDuration(properties.DURATION || '');
+      const end = properties.DTEND
+        ? parseDateTime(properties.DTEND)
+        : start && duration !== null
+        ? new Date(start.getTime() + duration)
+        : null;
+      if (start && end && end > start && properties.STATUS !== 'CANCELLED') {
+        events.push({
+          uid: properties.UID || '',
+          summary: unescapeText(properties.SUMMARY || ''),
+          start,
+          end,
+          categories: (properties.CATEGORIES || '')
+            .split(/(?<!\\),/)
+            .map((category) => unescapeText(category).trim())
+            .filter((category) => category),
+        });
+      }
+      properties = null;
+      return;
+    }
+    const match = line.match(/^([A-Za-z-]+)(?:;[^:]*)?:(.*)$/);
+    if (properties && match) {
+      properties[match[1].toUpperCase()] = match[2];
+    }
+  });
+
+  return events.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
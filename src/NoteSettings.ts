@@ -0,0 +1,75 @@
+import { DynamicTimetableSettings } from './main';
+
+/** Settings a note can override for itself in its frontmatter. */
+export const NOTE_SETTING_KEYS: (keyof DynamicTimetableSettings)[] = [
+  'taskEstimateDelimiter',
+  'startTimeDelimiter',
+  'taskSyntaxes',
+  'dateDelimiter',
+  'showUntilRegex',
+  'estimateFormat',
+  'inferMissingEstimates',
+  'autoSchedule',
+  'pomodoroMode',
+  'pomodoroWorkMinutes',
+  'pomodoroShortBreakMinutes',
+  'pomodoroLongBreakMinutes',
+  'pomodoroLongBreakInterval',
+  'showEstimate',
+  'showStartTime',
+  'showEstimateInTaskName',
+  'showStartTimeInTaskName',
+  'showCategoryNamesInTask',
+  'showBufferTime',
+  'showCompletedTasks',
+  'showRemainingTime',
+  'showProgressBar',
+  'headerNames',
+  'viewMode',
+];
+
+// A frontmatter value is only used when it has the type of the setting.
+const parseOverride = (
+  value: unknown,
+  defaultValue: DynamicTimetableSettings[string]
+): DynamicTimetableSettings[string] => {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  if (Array.isArray(defaultValue)) {
+    return Array.isArray(value) &&
+      value.every((item) => typeof item === 'string')
+      ? value
+      : undefined;
+  }
+  switch (typeof defaultValue) {
+    case 'boolean':
+      return typeof value === 'boolean' ? value : undefined;
+    case 'number':
+      return value !== '' && !isNaN(Number(value)) ? Number(value) : undefined;
+    case 'string':
+      return typeof value === 'string' || typeof value === 'number'
+        ? String(value)
+        : undefined;
+    default:
+      return undefined;
+  }
+};
+
+/** Reads the overrides from a note's frontmatter, ignoring invalid values. */
+export const getNoteOverrides = (
+  frontmatter: Record<string, unknown> | undefined,
+  defaults: DynamicTimetableSettings
+): Partial<DynamicTimetableSettings> => {
+  const overrides: Partial<DynamicTimetableSettings> = {};
+  if (!frontmatter) {
+    return overrides;
+  }
+  NOTE_SETTING_KEYS.forEach((key) => {
+    const value = parseOverride(frontmatter[key], defaults[key]);
+    if (value !== undefined) {
+      overrides[key] = value;
+    }
+  });
+  return overrides;
+};
@@ -0,0 +1,161 @@
+import { DynamicTimetableSettings } from './main';
+
+export type PomodoroSettings = {
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  longBreakInterval: number;
+};
+
+export type PomodoroBreak = {
+  start: Date;
+  end: Date;
+  isLongBreak: boolean;
+};
+
+export type PomodoroInterval = PomodoroBreak & {
+  isBreak: boolean;
+};
+
+/**
+ * Where the pomodoro cycle stands, derived from the work time already
+ * logged today.
+ */
+export type PomodoroState = {
+  completedIntervals: number;
+  intervalWork: number;
+  isOnBreak: boolean;
+};
+
+// Numbers typed into the settings tab are stored as strings, so a value
+// that is not a valid number falls back to its default.
+export const getPomodoroSettings = (
+  settings: DynamicTimetableSettings,
+  defaults: DynamicTimetableSettings
+): PomodoroSettings | null => {
+  if (!settings.pomodoroMode) {
+    return null;
+  }
+  const getNumber = (
+    key:
+      | 'pomodoroWorkMinutes'
+      | 'pomodoroShortBreakMinutes'
+      | 'pomodoroLongBreakMinutes'
+      | 'pomodoroLongBreakInterval',
+    isValid: (value: number) => boolean
+  ) => {
+    const value = Number(settings[key]);
+    return Number.isFinite(value) && isValid(value)
+      ? value
+      : Number(defaults[key]);
+  };
+  return {
+    workMinutes: getNumber('pomodoroWorkMinutes', (value) => value > 0),
+    shortBreakMinutes: getNumber(
+      'pomodoroShortBreakMinutes',
+      (value) => value >= 0
+    ),
+    longBreakMinutes: getNumber(
+      'pomodoroLongBreakMinutes',
+      (value) => value >= 0
+    ),
+    longBreakInterval: getNumber(
+      'pomodoroLongBreakInterval',
+      (value) => value >= 0
+    ),
+  };
+};
+
+export const isLongBreak = (
+  settings: PomodoroSettings,
+  completedIntervals: number
+): boolean =>
+  settings.longBreakInterval > 0 &&
+  completedIntervals % settings.longBreakInterval === 0;
+
+export const getBreakLength = (
+  settings: PomodoroSettings,
+  completedIntervals: number
+): number =>
+  (isLongBreak(settings, completedIntervals)
+    ? settings.longBreakMinutes
+    : settings.shortBreakMinutes) * 60000;
+
+// A task that starts right after a finished interval begins with its break.
+export const createPomodoroState = (
+  settings: PomodoroSettings,
+  loggedWork: number
+): PomodoroState => {
+  const workLength = settings.workMinutes * 60000;
+  const intervalWork = loggedWork % workLength;
+  return {
+    completedIntervals: Math.floor(loggedWork / workLength),
+    intervalWork,
+    isOnBreak: loggedWork > 0 && intervalWork === 0,
+  };
+};
+
+/**
+ * Returns how much of the time spent on the current task was work, leaving
+ * out the breaks the cycle calls for.
+ */
+export const getWorkTime = (
+  elapsed: number,
+  settings: PomodoroSettings,
+  loggedWork: number
+): number => {
+  const workLength = settings.workMinutes * 60000;
+  const state = createPomodoroState(settings, loggedWork);
+  let remaining = elapsed;
+  let workTime = 0;
+
+  for (;;) {
+    const remainingBefore = remaining;
+    if (state.isOnBreak) {
+      const breakLength = getBreakLength(settings, state.completedIntervals);
+      if (remaining <= breakLength) return workTime;
+      remaining -= breakLength;
+      state.isOnBreak = false;
+    }
+    const intervalLeft = workLength - state.intervalWork;
+    if (remaining <= intervalLeft) return workTime + remaining;
+    workTime += intervalLeft;
+    remaining -= intervalLeft;
+    state.completedIntervals++;
+    state.intervalWork = 0;
+    state.isOnBreak = true;
+    // Stops rather than spins if the lengths do not move the cycle on.
+    if (!(remaining < remainingBefore)) return workTime;
+  }
+};
+
+/** Splits a task's time span into work intervals and the breaks between. */
+export const splitByBreaks = (
+  start: Date,
+  end: Date,
+  breaks: PomodoroBreak[]
+): PomodoroInterval[] => {
+  const intervals: PomodoroInterval[] = [];
+  let workStart = start;
+  breaks.forEach((pomodoroBreak) => {
+    if (pomodoroBreak.start > workStart) {
+      intervals.push({
+        start: workStart,
+        end: pomodoroBreak.start,
+        isBreak: false,
+        isLongBreak: false,
+      });
+    }
+    intervals.push({ ...pomodoroBreak, isBreak: true });
+    workStart = pomodoroBreak.end;
+  });
+  if (end > workStart) {
+    intervals.push({
+      start: workStart,
+      end,
+      isBreak: false,
+      isLongBreak: false,
+    });
+  }
+  return intervals;
+};
@@ -5,32 +5,42 @@ type ProgressBarProps = {
   duration: number;
   estimate: number;
   enableOverdueNotice: boolean;
+  isPaused: boolean;
+  isBreak: boolean;
 };
 
 const ProgressBar = ({
   duration,
   estimate,
   enableOverdueNotice,
+  isPaused,
+  isBreak,
 }: ProgressBarProps) => {
   const [notice, setNotice] = useState<Notice | null>(null);
   const width = Math.min((duration / estimate) * 100, 100);
-  const isOverdue = width === 100;
+  const isOverdue = width === 100 && !isBreak;
+  const showNotice = isOverdue || isBreak;
 
   useEffect(() => {
-    if (isOverdue && enableOverdueNotice && !notice) {
-      const newNotice = new Notice('Are you finished?', 0);
+    if (showNotice && enableOverdueNotice && !notice) {
+      const newNotice = new Notice(
+        isBreak ? 'Break time!' : 'Are you finished?',
+        0
+      );
       setNotice(newNotice);
-    } else if (!isOverdue && notice) {
+    } else if (!showNotice && notice) {
       notice.hide();
       setNotice(null);
     }
-  }, [isOverdue, enableOverdueNotice, notice]);
+  }, [showNotice, enableOverdueNotice, notice]);
 
   return (
     <div className="dt-progress-bar-container">
       <div
         className={`dt-progress-bar ${
           isOverdue ? 'dt-progress-bar-overdue' : ''
+        } ${isPaused ? 'dt-progress-bar-paused' : ''} ${
+          isBreak ? 'dt-progress-bar-break' : ''
         }`}
         style={{ width: width + '%' }}></div>
     </div>
@@ -0,0 +1,106 @@
+import { Notice } from 'obsidian';
+import DynamicTimetable from './main';
+import { Task, findCurrentTask } from './TaskManager';
+
+type ReminderType = 'start' | 'end';
+
+// Reminders already shown are kept for a day, so they are not repeated
+// after a reload.
+const REMINDER_RETENTION = 24 * 60 * 60 * 1000;
+
+const getReminderKey = (type: ReminderType, task: Task, time: Date) =>
+  `${type}|${task.task}|${time.getTime()}`;
+
+export const reminderFunctions = (plugin: DynamicTimetable) => {
+  const showDesktopNotification = async (message: string) => {
+    if (typeof Notification === 'undefined') {
+      return;
+    }
+    if (Notification.permission === 'default') {
+      await Notification.requestPermission();
+    }
+    if (Notification.permission === 'granted') {
+      new Notification('Dynamic Timetable', { body: message });
+    }
+  };
+
+  const remind = async (key: string, message: string) => {
+    const now = Date.now();
+    plugin.settings.firedReminders = [
+      ...plugin.settings.firedReminders.filter(
+        (firedKey) =>
+          Number(firedKey.split('|').pop()) > now - REMINDER_RETENTION
+      ),
+      key,
+    ];
+    await plugin.saveData(plugin.settings);
+    new Notice(message);
+    if (plugin.settings.desktopNotifications) {
+      await showDesktopNotification(message);
+    }
+  };
+
+  const isDue = (time: Date, minutesBefore: number, now: number) =>
+    minutesBefore > 0 &&
+    now >= time.getTime() - minutesBefore * 60000 &&
+    now < time.getTime();
+
+  const formatMinutesLeft = (time: Date, now: number) => {
+    const minutes = Math.ceil((time.getTime() - now) / 60000);
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  };
+
+  /**
+   * Reminds of fixed-start tasks and of the current task's planned end
+   * once each, the configured number of minutes ahead.
+   */
+  const checkReminders = async () => {
+    const { tasks, settings } = plugin;
+    const startMinutes = Number(settings.startReminderMinutes);
+    const endMinutes = Number(settings.endReminderMinutes);
+    const now = Date.now();
+    const currentTask = findCurrentTask(tasks);
+
+    for (const task of tasks) {
+      if (
+        task === currentTask ||
+        task.isCompleted ||
+        task.isCalendarEvent ||
+        !task.originalStartTime ||
+        !task.startTime ||
+        !isDue(task.startTime, startMinutes, now)
+      ) {
+        continue;
+      }
+      const key = getReminderKey('start', task, task.startTime);
+      if (!settings.firedReminders.includes(key)) {
+        await remind(
+          key,
+          `"${task.task}" starts in ${formatMinutesLeft(task.startTime, now)}.`
+        );
+      }
+    }
+
+    if (
+      currentTask?.startTime &&
+      currentTask.endTime &&
+      !currentTask.pauses.some((pause) => pause.end === null) &&
+      isDue(currentTask.endTime, endMinutes, now)
+    ) {
+      const key = getReminderKey('end', currentTask, currentTask.startTime);
+      if (!settings.firedReminders.includes(key)) {
+        await remind(
+          key,
+          `"${currentTask.task}" is planned to end in ${formatMinutesLeft(
+            currentTask.endTime,
+            now
+          )}.`
+        );
+      }
+    }
+  };
+
+  return {
+    checkReminders,
+  };
+};
@@ -0,0 +1,150 @@
+import { MarkdownView, Notice, TFile, moment } from 'obsidian';
+import DynamicTimetable from './main';
+import { taskFunctions } from './TaskManager';
+import { TaskParser } from './TaskParser';
+import { formatEstimate } from './EstimateUtils';
+
+export type Routine = {
+  name: string;
+  lines: string[];
+};
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const DAY_GROUPS: Record<string, string[]> = {
+  daily: WEEKDAYS,
+  weekdays: ['mon', 'tue', 'wed', 'thu', 'fri'],
+  weekends: ['sat', 'sun'],
+};
+
+// `days:mon,wed,fri`, `days:weekdays` or `days:weekends`.
+const DAYS_REGEX = /\s*\bdays:([A-Za-z,]+)/;
+
+export const routineFunctions = (plugin: DynamicTimetable) => {
+  const getRoutineFile = (): TFile | null =>
+    plugin.settings.routineFile
+      ? plugin.app.metadataCache.getFirstLinkpathDest(
+          plugin.settings.routineFile,
+          '/'
+        )
+      : null;
+
+  // Each heading starts a routine; tasks above the first heading form a
+  // routine named after the file.
+  const parseRoutines = (content: string, fileName: string): Routine[] => {
+    const routines: Routine[] = [{ name: fileName, lines: [] }];
+    content.split('\n').forEach((line) => {
+      const heading = line.match(/^#{1,6}\s+(.+)$/);
+      if (heading) {
+        routines.push({ name: heading[1].trim(), lines: [] });
+      } else if (/^\s*[-+*] \[[ x]\]/.test(line)) {
+        routines[routines.length - 1].lines.push(line);
+      }
+    });
+    return routines.filter((routine) => routine.lines.length > 0);
+  };
+
+  const isScheduledOn = (line: string, date: moment.Moment): boolean => {
+    const match = line.match(DAYS_REGEX);
+    if (!match) {
+      return true;
+    }
+    const weekday = WEEKDAYS[date.day()];
+    return match[1]
+      .toLowerCase()
+      .split(',')
+      .some((day) => (DAY_GROUPS[day] || [day.slice(0, 3)]).includes(weekday));
+  };
+
+  const getRoutines = async (): Promise<Routine[]> => {
+    const routineFile = getRoutineFile();
+    if (!routineFile) {
+      return [];
+    }
+    const content = await plugin.app.vault.cachedRead(routineFile);
+    return parseRoutines(content, routineFile.basename);
+  };
+
+  /**
+   * Returns today's lines of a routine as open tasks, with estimates taken
+   * from the dictionary where it has a record of the task.
+   */
+  const getRoutineLines = async (
+    routine: Routine,
+    date: moment.Moment = moment()
+  ): Promise<string[]> => {
+    const taskManager = taskFunctions(plugin);
+    const taskParser = TaskParser.fromSettings(plugin.getEffectiveSettings());
+    const historicalEstimates = await taskManager.readHistoricalEstimates();
+
+    // Subtasks are left out together with their parent.
+    let skippedIndent: number | null = null;
+    return routine.lines
+      .filter((line) => {
+        const indent = line.match(/^\s*/)?.[0].length || 0;
+        if (skippedIndent !== null && indent > skippedIndent) {
+          return false;
+        }
+        skippedIndent = isScheduledOn(line, date) ? null : indent;
+        return skippedIndent === null;
+      })
+      .map((line) => {
+        const task = line
+          .replace(DAYS_REGEX, '')
+          .replace(/^(\s*[-+*]) \[x\]/, '$1 [ ]');
+        const { originalTaskName } = taskParser.parseTaskName(task.trim());
+        const historicalEstimate = historicalEstimates[originalTaskName];
+        return historicalEstimate === undefined
+          ? task
+          : taskManager.setEstimateInLine(
+              task,
+              formatEstimate(
+                historicalEstimate,
+                plugin.getEffectiveSettings().estimateFormat
+              )
+            );
+      });
+  };
+
+  const insertAtTop = (content: string, lines: string[]): string => {
+    const frontmatter = content.match(/^---\n[\s\S]*?\n---\n?/);
+    const offset = frontmatter ? frontmatter[0].length : 0;
+    const prefix = content.slice(0, offset);
+    const separator = prefix && !prefix.endsWith('\n') ? '\n' : '';
+    return `${prefix}${separator}${lines.join('\n')}\n${content.slice(offset)}`;
+  };
+
+  // Inserts at the cursor when the target file is open in the editor, and
+  // at the top of the target file (below the frontmatter) otherwise.
+  const insertRoutine = async (routine: Routine) => {
+    const targetFile = plugin.targetFile;
+    if (!targetFile) {
+      new Notice('No target file to insert the routine into.');
+      return;
+    }
+
+    const lines = await getRoutineLines(routine);
+    if (lines.length === 0) {
+      new Notice(`"${routine.name}" has no tasks for today.`);
+      return;
+    }
+
+    const view = plugin.app.workspace.getActiveViewOfType(MarkdownView);
+    if (view && view.file === targetFile) {
+      const cursor = view.editor.getCursor();
+      view.editor.replaceRange(`${lines.join('\n')}\n`, {
+        line: cursor.line,
+        ch: 0,
+      });
+    } else {
+      const content = await plugin.app.vault.cachedRead(targetFile);
+      await plugin.app.vault.modify(targetFile, insertAtTop(content, lines));
+    }
+    new Notice(`Inserted ${lines.length} task(s) from "${routine.name}".`);
+  };
+
+  return {
+    getRoutines,
+    insertRoutine,
+  };
+};
@@ -0,0 +1,25 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import { Routine } from './RoutineManager';
+
+export class RoutineSuggestModal extends FuzzySuggestModal<Routine> {
+  constructor(
+    app: App,
+    private routines: Routine[],
+    private onChoose: (routine: Routine) => void
+  ) {
+    super(app);
+    this.setPlaceholder('Choose a routine to insert');
+  }
+
+  getItems(): Routine[] {
+    return this.routines;
+  }
+
+  getItemText(routine: Routine): string {
+    return routine.name;
+  }
+
+  onChooseItem(routine: Routine): void {
+    this.onChoose(routine);
+  }
+}
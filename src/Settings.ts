@@ -1,5 +1,7 @@
 import { App, PluginSettingTab, Setting } from 'obsidian';
 import DynamicTimetable from './main';
+import { HookName } from './HookManager';
+import { TaskSyntaxName } from './TaskSyntax';
 
 export class DynamicTimetableSettingTab extends PluginSettingTab {
   plugin: DynamicTimetable;
@@ -33,7 +35,18 @@ export class DynamicTimetableSettingTab extends PluginSettingTab {
       'showRemainingTime',
       'Show remaining time instead of the time for current task in progress.'
     );
+    this.createDropdownSetting(
+      'View Mode',
+      'viewMode',
+      { table: 'Table', timeline: 'Timeline' },
+      'Show the timetable as a table, or as blocks on a vertical time axis.'
+    );
     this.createToggleSetting('Show Progress Bar', 'showProgressBar');
+    this.createToggleSetting(
+      'Show Status Bar',
+      'showStatusBar',
+      'Show the current task and its remaining time in the status bar.'
+    );
     if (this.plugin.settings.showProgressBar) {
       this.createTextSetting(
         'Interval Time (Seconds)',
@@ -42,18 +55,96 @@ export class DynamicTimetableSettingTab extends PluginSettingTab {
         '1'
       );
     }
+    this.createDropdownSetting(
+      'Task Source',
+      'taskSource',
+      {
+        activeFile: 'Active file',
+        folder: 'Folder',
+        files: 'List of files',
+        tag: 'Tag',
+        dailyNote: "Today's daily note",
+      },
+      'Choose where tasks are collected from. Tasks from several notes are merged into one timetable.'
+    );
+    if (this.plugin.settings.taskSource === 'folder') {
+      this.createTextSetting(
+        'Source Folder',
+        'sourceFolder',
+        'All Markdown files in this folder (including subfolders) are read in path order.',
+        'path/to/folder'
+      );
+    } else if (this.plugin.settings.taskSource === 'files') {
+      this.createSourceFilesSetting();
+    } else if (this.plugin.settings.taskSource === 'tag') {
+      this.createTextSetting(
+        'Source Tag',
+        'sourceTag',
+        'All Markdown files with this tag are read in path order.',
+        '#project'
+      );
+    }
+    this.createTextSetting(
+      'Daily Note Folder',
+      'dailyNoteFolder',
+      'Enter the folder where daily notes are stored. Used by the daily note source and the statistics history.',
+      'path/to/daily-notes'
+    );
+    this.createTextSetting(
+      'Daily Note Date Format',
+      'dailyNoteFormat',
+      'Enter the Moment.js format of the daily note file names.',
+      'YYYY-MM-DD'
+    );
+    if (this.plugin.settings.taskSource === 'dailyNote') {
+      this.createToggleSetting(
+        'Carry Over Unfinished Tasks Automatically',
+        'autoCarryOver',
+        "Copy the unfinished tasks from the previous daily note into today's note once a day."
+      );
+      this.createToggleSetting(
+        'Insert Carried-Over Tasks After Date Delimiter',
+        'carryOverAfterDateDelimiter',
+        "If enabled, carried-over tasks are inserted after the first line matching the date delimiter in today's note instead of at the end."
+      );
+    }
     this.createTextSetting(
       'Task/Estimate Delimiter',
       'taskEstimateDelimiter',
       '',
       ';'
     );
+    this.createDropdownSetting(
+      'Estimate Format',
+      'estimateFormat',
+      {
+        minutes: 'Minutes (90)',
+        hoursMinutes: 'Hours and minutes (1h30m)',
+        decimalHours: 'Decimal hours (1.5h)',
+      },
+      'Choose how actual and remaining times are written back into the note. Estimates in any of these formats can be read.'
+    );
     this.createTextSetting(
       'Start Time Delimiter',
       'startTimeDelimiter',
       '',
       '@'
     );
+    this.createTaskSyntaxSetting(
+      'Delimiter Syntax',
+      'delimiter',
+      'Read estimates and start times written with the delimiters above, as in ; 30 @ 10:00.'
+    );
+    this.createTaskSyntaxSetting(
+      'Dataview Inline Fields',
+      'dataview',
+      'Read [estimate:: 30] and [start:: 10:00].'
+    );
+    this.createTaskSyntaxSetting(
+      'Tasks Emoji',
+      'tasksEmoji',
+      'Read ⏳ 30m as the estimate and ⏰ 10:00 as the start time.'
+    );
     this.createTextSetting(
       'Date Delimiter',
       'dateDelimiter',
@@ -91,11 +182,85 @@ export class DynamicTimetableSettingTab extends PluginSettingTab {
       pathToDictionaryDesc,
       'path/to/dictionary.md'
     );
-    this.createTextAreaSetting(
-      'Custom URL Scheme',
-      'customUrlScheme',
-      'Enter the URL scheme you want to execute when a task is completed. You can use the following placeholders: {{minutes}}, {{seconds}}, {{taskName}}',
-      'your-app-scheme://doSomething?minutes={{minutes}}&seconds={{seconds}}&taskName={{taskName}}'
+    this.createToggleSetting(
+      'Infer Missing Estimates',
+      'inferMissingEstimates',
+      'If enabled, tasks without an estimate use the trimmed mean recorded in the dictionary.'
+    );
+    this.createTextSetting(
+      'Routine File',
+      'routineFile',
+      'Enter the path to a note of routine tasks. Each heading starts a routine, and a days:mon,wed,fri (or days:weekdays, days:weekends) tag limits a task to those days.',
+      'path/to/routines.md'
+    );
+    this.createTextSetting(
+      'Calendar File',
+      'calendarFile',
+      "Enter the path to an .ics file in the vault. Today's events are shown as fixed blocks that tasks are scheduled around.",
+      'path/to/calendar.ics'
+    );
+    this.createToggleSetting(
+      'Auto-Schedule Around Fixed Tasks',
+      'autoSchedule',
+      'If enabled, tasks without a start time that would overlap a task with a start time or a calendar event are scheduled after it. The note is not changed.'
+    );
+    this.createToggleSetting(
+      'Pomodoro Mode',
+      'pomodoroMode',
+      'If enabled, tasks are split into work intervals with short and long breaks in between.'
+    );
+    if (this.plugin.settings.pomodoroMode) {
+      this.createTextSetting(
+        'Work Interval (Minutes)',
+        'pomodoroWorkMinutes',
+        'Set the length of a work interval.',
+        '25'
+      );
+      this.createTextSetting(
+        'Short Break (Minutes)',
+        'pomodoroShortBreakMinutes',
+        'Set the length of the break after a work interval.',
+        '5'
+      );
+      this.createTextSetting(
+        'Long Break (Minutes)',
+        'pomodoroLongBreakMinutes',
+        'Set the length of the longer break taken every few intervals.',
+        '15'
+      );
+      this.createTextSetting(
+        'Long Break Every (Intervals)',
+        'pomodoroLongBreakInterval',
+        'Set how many work intervals come before a long break.',
+        '4'
+      );
+    }
+    this.createHookSetting('Task Start Hook', 'taskStartHook');
+    this.createHookSetting('Task Complete Hook', 'taskCompleteHook');
+    this.createHookSetting('Task Interrupt Hook', 'taskInterruptHook');
+    this.createHookSetting('Overdue Hook', 'overdueHook');
+    this.createHookSetting('Day Finished Hook', 'dayFinishedHook');
+    this.createTextSetting(
+      'Export Folder',
+      'exportFolder',
+      'Enter the folder where exported files are saved.',
+      'path/to/exports'
+    );
+    this.createDropdownSetting(
+      'iCalendar Export Events',
+      'icsExportMode',
+      {
+        planned: 'Planned tasks only',
+        actual: 'Completed tasks only',
+        both: 'Planned and completed tasks',
+      },
+      'Choose which tasks become events when exporting the timetable as an .ics file.'
+    );
+    this.createDropdownSetting(
+      'Completed Task Log Format',
+      'timeLogExportFormat',
+      { csv: 'CSV', json: 'JSON' },
+      'Choose the file format of the completed task log export.'
     );
     this.createToggleSetting(
       'Apply Background Color by Category (tag)',
@@ -106,6 +271,23 @@ export class DynamicTimetableSettingTab extends PluginSettingTab {
       this.createCategoryColorsSetting();
     }
     this.createToggleSetting('Enable Overdue Notice', 'enableOverdueNotice');
+    this.createTextSetting(
+      'Start Reminder (Minutes)',
+      'startReminderMinutes',
+      'Remind this many minutes before a task with a start time is due. Set to 0 to turn off.',
+      '0'
+    );
+    this.createTextSetting(
+      'End Reminder (Minutes)',
+      'endReminderMinutes',
+      "Remind this many minutes before the current task's planned end. Set to 0 to turn off.",
+      '0'
+    );
+    this.createToggleSetting(
+      'Desktop Notifications',
+      'desktopNotifications',
+      'Also show reminders as desktop notifications.'
+    );
   }
 
   createTextSetting(
@@ -153,6 +335,15 @@ export class DynamicTimetableSettingTab extends PluginSettingTab {
     });
   }
 
+  createHookSetting(name: string, key: HookName) {
+    this.createTextAreaSetting(
+      name,
+      key,
+      'Enter URLs to open or command IDs to run, one per line. URLs can use the placeholders {{taskName}}, {{categories}}, {{minutes}}, {{seconds}}, {{startTime}}, {{endTime}}, {{elapsedMinutes}}, {{elapsedSeconds}} and {{previousTaskName}}.',
+      'your-app-scheme://doSomething?minutes={{minutes}}&taskName={{taskName}}'
+    );
+  }
+
   createToggleSetting(name: string, key: string, desc?: string) {
     const setting = new Setting(this.containerEl).setName(name);
     if (desc) {
@@ -168,6 +359,68 @@ export class DynamicTimetableSettingTab extends PluginSettingTab {
     );
   }
 
+  // Values are written back in the syntax they were read in. Lines without
+  // them get the first active syntax in the list.
+  createTaskSyntaxSetting(name: string, syntax: TaskSyntaxName, desc: string) {
+    new Setting(this.containerEl)
+      .setName(name)
+      .setDesc(desc)
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.taskSyntaxes.includes(syntax))
+          .onChange(async (value) => {
+            const others = this.plugin.settings.taskSyntaxes.filter(
+              (name) => name !== syntax
+            );
+            await this.plugin.updateSetting(
+              'taskSyntaxes',
+              value ? [...others, syntax] : others
+            );
+          })
+      );
+  }
+
+  createDropdownSetting(
+    name: string,
+    key: string,
+    options: Record<string, string>,
+    desc?: string
+  ) {
+    const setting = new Setting(this.containerEl).setName(name);
+    if (desc) {
+      setting.setDesc(desc);
+    }
+    setting.addDropdown((dropdown) =>
+      dropdown
+        .addOptions(options)
+        .setValue(this.plugin.settings[key] as string)
+        .onChange(async (value) => {
+          await this.plugin.updateSetting(key, value);
+          this.display();
+        })
+    );
+  }
+
+  createSourceFilesSetting() {
+    new Setting(this.containerEl)
+      .setName('Source Files')
+      .setDesc('Enter the paths of the files to read, one per line.')
+      .addTextArea((text) => {
+        const el = text
+          .setPlaceholder('path/to/first.md\npath/to/second.md')
+          .setValue(this.plugin.settings.sourceFiles.join('\n'));
+        el.inputEl.style.height = '60px';
+        el.inputEl.addEventListener('blur', async (event) => {
+          const value = (event.target as HTMLTextAreaElement).value
+            .split('\n')
+            .map((s) => s.trim())
+            .filter((s) => s);
+          await this.plugin.updateSetting('sourceFiles', value);
+        });
+        return el;
+      });
+  }
+
   createHeaderNamesSetting(headerNames: string) {
     new Setting(this.containerEl)
       .setName('Header Names')
@@ -8,6 +8,13 @@ import { Task, TaskParser } from './TaskParser';
 import DynamicTimetable from './main';
 import { taskFunctions } from './TaskManager';
 import { Bar } from 'react-chartjs-2';
+import { moment } from 'obsidian';
+import {
+  HistoryRange,
+  HistoryStatistics,
+  historyFunctions,
+} from './HistoryManager';
+import { formatEstimate } from './EstimateUtils';
 
 import {
   Chart,
@@ -28,23 +35,26 @@ type Props = {
 export const StatisticsViewComponent = forwardRef((props: Props, ref) => {
   const { plugin, tasks: initialTasks } = props;
   const [tasks, setTasks] = useState<Task[]>(initialTasks);
+  const [range, setRange] = useState<HistoryRange>('current');
+  const [customStart, setCustomStart] = useState(moment().format('YYYY-MM-DD'));
+  const [customEnd, setCustomEnd] = useState(moment().format('YYYY-MM-DD'));
+  const [history, setHistory] = useState<HistoryStatistics | null>(null);
   const taskManager = taskFunctions(plugin);
+  const historyManager = historyFunctions(plugin);
   const categoryBackgroundColors = plugin.categoryBackgroundColors;
 
-  const performance = new TaskParser(
-    plugin.settings.taskEstimateDelimiter,
-    plugin.settings.startTimeDelimiter,
-    plugin.settings.dateDelimiter,
-    plugin.settings.showStartTimeInTaskName,
-    plugin.settings.showEstimateInTaskName,
-    plugin.settings.showCategoryNamesInTask
-  ).getCategoryPerformance(tasks);
+  const performance = history
+    ? history.categories
+    : TaskParser.fromSettings(
+        plugin.getEffectiveSettings()
+      ).getCategoryPerformance(tasks);
 
   const performanceArray = Object.entries(performance).map(
-    ([category, { actualTime, estimatedTime }]) => ({
+    ([category, { actualTime, estimatedTime, plannedTime }]) => ({
       category,
       actualTime,
       estimatedTime,
+      plannedTime,
       total: actualTime + estimatedTime,
     })
   );
@@ -93,14 +103,57 @@ export const StatisticsViewComponent = forwardRef((props: Props, ref) => {
     },
   };
 
+  const formatMinutes = (minutes: number) =>
+    formatEstimate(minutes, plugin.getEffectiveSettings().estimateFormat);
+
+  const formatRatio = (actualTime: number, plannedTime: number) =>
+    plannedTime > 0 ? `${Math.round((actualTime / plannedTime) * 100)}%` : '-';
+
+  const days = history?.days || [];
+  const dailyData = {
+    labels: days.map((day) => moment(day.date).format('MM-DD')),
+    datasets: [
+      {
+        label: 'Planned Time',
+        data: days.map((day) => day.plannedTime),
+        backgroundColor: 'rgba(128, 128, 128, 0.3)',
+      },
+      {
+        label: 'Actual Time',
+        data: days.map((day) => day.actualTime),
+        backgroundColor: 'rgba(76, 175, 80, 0.8)',
+      },
+    ],
+  };
+  const totalPlannedTime = days.reduce((sum, day) => sum + day.plannedTime, 0);
+  const totalActualTime = days.reduce((sum, day) => sum + day.actualTime, 0);
+
   const update = async () => {
     const newTasks = await taskManager.initializeTasks();
     setTasks(newTasks);
   };
 
+  useEffect(() => {
+    if (range === 'current') {
+      setHistory(null);
+      return;
+    }
+    let cancelled = false;
+    historyManager
+      .getStatistics(range, customStart, customEnd)
+      .then((statistics) => {
+        if (!cancelled) {
+          setHistory(statistics);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [range, customStart, customEnd, tasks]);
+
   useEffect(() => {
     const onFileModify = async (file: any) => {
-      if (file === plugin.targetFile) {
+      if (plugin.isSourceFile(file)) {
         await update();
       }
     };
@@ -114,8 +167,85 @@ export const StatisticsViewComponent = forwardRef((props: Props, ref) => {
   }));
 
   return (
-    <div style={{ width: '100%', height: '100%' }}>
+    <div className="dt-statistics" style={{ width: '100%', height: '100%' }}>
+      <div className="dt-statistics-range">
+        <select
+          className="dropdown"
+          value={range}
+          onChange={(event) => setRange(event.target.value as HistoryRange)}>
+          <option value="current">Current timetable</option>
+          <option value="today">Today</option>
+          <option value="week">This week</option>
+          <option value="month">This month</option>
+          <option value="custom">Custom</option>
+        </select>
+        {range === 'custom' && (
+          <>
+            <input
+              type="date"
+              value={customStart}
+              onChange={(event) => setCustomStart(event.target.value)}
+            />
+            <input
+              type="date"
+              value={customEnd}
+              onChange={(event) => setCustomEnd(event.target.value)}
+            />
+          </>
+        )}
+      </div>
       <Bar data={data} options={options} />
+      {history && (
+        <>
+          <Bar data={dailyData} />
+          <table className="dt-table dt-statistics-table">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Planned</th>
+                <th>Actual</th>
+                <th>Actual / Planned</th>
+              </tr>
+            </thead>
+            <tbody>
+              {days.map((day) => (
+                <tr key={day.date}>
+                  <td>{day.date}</td>
+                  <td>{formatMinutes(day.plannedTime)}</td>
+                  <td>{formatMinutes(day.actualTime)}</td>
+                  <td>{formatRatio(day.actualTime, day.plannedTime)}</td>
+                </tr>
+              ))}
+              <tr className="dt-statistics-total">
+                <td>Total</td>
+                <td>{formatMinutes(totalPlannedTime)}</td>
+                <td>{formatMinutes(totalActualTime)}</td>
+                <td>{formatRatio(totalActualTime, totalPlannedTime)}</td>
+              </tr>
+            </tbody>
+          </table>
+          <table className="dt-table dt-statistics-table">
+            <thead>
+              <tr>
+                <th>Category</th>
+                <th>Planned</th>
+                <th>Actual</th>
+                <th>Actual / Planned</th>
+              </tr>
+            </thead>
+            <tbody>
+              {performanceArray.map(({ category, actualTime, plannedTime }) => (
+                <tr key={category}>
+                  <td>{category}</td>
+                  <td>{formatMinutes(plannedTime)}</td>
+                  <td>{formatMinutes(actualTime)}</td>
+                  <td>{formatRatio(actualTime, plannedTime)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
     </div>
   );
 });
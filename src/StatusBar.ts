@@ -0,0 +1,88 @@
+import { Menu } from 'obsidian';
+import DynamicTimetable from './main';
+import { Task, findCurrentTask } from './TaskManager';
+import { calculatePausedTime } from './TaskParser';
+
+const formatDuration = (milliseconds: number): string => {
+  const totalSeconds = Math.floor(Math.abs(milliseconds) / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+};
+
+// Time spent so far on pomodoro breaks, which does not count as work.
+const getBreakTime = (task: Task, now: number): number =>
+  task.breaks.reduce(
+    (total, { start, end }) =>
+      total + Math.max(0, Math.min(now, end.getTime()) - start.getTime()),
+    0
+  );
+
+/** Shows the current task and its countdown in the status bar. */
+export class TimetableStatusBar {
+  private plugin: DynamicTimetable;
+  private el: HTMLElement;
+
+  constructor(plugin: DynamicTimetable) {
+    this.plugin = plugin;
+    this.el = plugin.addStatusBarItem();
+    this.el.addClass('dt-status-bar', 'mod-clickable');
+    this.el.addEventListener('click', (event) => this.showMenu(event));
+    this.update();
+  }
+
+  update(): void {
+    const task = findCurrentTask(this.plugin.tasks);
+    if (
+      !this.plugin.settings.showStatusBar ||
+      !task?.startTime ||
+      !task.estimate
+    ) {
+      this.el.hide();
+      return;
+    }
+
+    const now = Date.now();
+    const isOnBreak = task.breaks.some(
+      ({ start, end }) => start.getTime() <= now && now < end.getTime()
+    );
+    const workTime =
+      now -
+      task.startTime.getTime() -
+      calculatePausedTime(task.pauses) -
+      getBreakTime(task, now);
+    const remaining = parseFloat(task.estimate) * 60000 - workTime;
+    const isOverdue = remaining < 0 && !isOnBreak;
+
+    let status = `${formatDuration(remaining)} left`;
+    if (isOnBreak) {
+      status = 'Break';
+    } else if (isOverdue) {
+      status = `${formatDuration(remaining)} over`;
+    }
+    this.el.setText(`${task.task} · ${status}`);
+    this.el.toggleClass('dt-status-bar-overdue', isOverdue);
+    this.el.show();
+  }
+
+  private showMenu(event: MouseEvent): void {
+    const { api } = this.plugin;
+    new Menu()
+      .addItem((item) =>
+        item
+          .setTitle('Complete Task')
+          .setIcon('check')
+          .onClick(() => api.completeTask())
+      )
+      .addItem((item) =>
+        item
+          .setTitle('Interrupt Task')
+          .setIcon('scissors')
+          .onClick(() => api.interruptTask())
+      )
+      .showAtMouseEvent(event);
+  }
+}
@@ -1,10 +1,62 @@
-import { TaskParser, Task as ImportedTask } from './TaskParser';
+import { Notice, TFile, moment } from 'obsidian';
+import {
+  TaskParser,
+  Task as ImportedTask,
+  TaskSource,
+  PauseSegment,
+  DEADLINE_REGEX,
+  PLANNED_REGEX,
+  calculatePausedTime,
+} from './TaskParser';
 import DynamicTimetable from './main';
+import { ConfirmModal } from './ConfirmModal';
+import { parseICalendar } from './ICalendar';
+import { getPomodoroSettings, getWorkTime } from './Pomodoro';
+import { undoFunctions } from './UndoManager';
+import { dailyNoteFunctions } from './DailyNoteManager';
+import {
+  findLineSyntax,
+  getTaskSyntaxes,
+  matchStartTime,
+  withLeadingSpace,
+} from './TaskSyntax';
+import { formatEstimate, parseEstimateToMinutes } from './EstimateUtils';
 
 export type Task = ImportedTask & {
   previousTaskEndTime?: Date | null;
 };
 
+// Parent tasks are never in progress themselves; their subtasks are.
+// Calendar events are not tasks and are never in progress either.
+export const findCurrentTask = <T extends ImportedTask>(
+  tasks: T[]
+): T | undefined =>
+  tasks.find(
+    (task) =>
+      !task.isCompleted && task.children.length === 0 && !task.isCalendarEvent
+  );
+
+export const isDeadlineMissed = (task: ImportedTask): boolean =>
+  !task.isCompleted &&
+  task.deadline !== null &&
+  task.endTime !== null &&
+  task.endTime > task.deadline;
+
+// The start of the task in progress is when it was actually started, so one
+// on an earlier day means it was left open overnight.
+export const isOpenOvernight = (
+  task: ImportedTask,
+  now: Date = new Date()
+): boolean =>
+  !task.isCompleted &&
+  task.startTime !== null &&
+  task.startTime < now &&
+  task.startTime.toDateString() !== now.toDateString();
+
+export type LineOrigin = { filePath: string; lineNumber: number };
+
+export type DropPosition = 'before' | 'after';
+
 type TaskUpdate = {
   task: Task;
   elapsedTime: number;
@@ -12,6 +64,14 @@ type TaskUpdate = {
 };
 
 export const taskFunctions = (plugin: DynamicTimetable) => {
+  const undoManager = undoFunctions(plugin);
+  const dailyNotes = dailyNoteFunctions(plugin);
+
+  // A daily note's date anchors start times without a date, including
+  // `HH:MM:SS` values in the frontmatter written by older versions.
+  const getNoteDate = (file: TFile | null): Date | undefined =>
+    (file && dailyNotes.getDailyNoteDate(file)?.toDate()) || undefined;
+
   const formatTime = (date: Date): string => {
     let hours = date.getHours();
     let minutes = date.getMinutes();
@@ -23,164 +83,653 @@ export const taskFunctions = (plugin: DynamicTimetable) => {
       .padStart(2, '0')}`;
   };
 
-  const updateStartTimeInYAML = (content: string, startTime: Date): string => {
-    const formattedTime = `${startTime
-      .getHours()
-      .toString()
-      .padStart(2, '0')}:${startTime
-      .getMinutes()
-      .toString()
-      .padStart(2, '0')}:${startTime.getSeconds().toString().padStart(2, '0')}`;
+  const escapeRegExp = (string: string) =>
+    string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
-    const yamlStartTimeRegex = /(^startTime: \d{2}:\d{2}:\d{2})/m;
+  const formatYamlTime = (date: Date): string =>
+    moment(date).format('YYYY-MM-DDTHH:mm:ssZ');
+
+  const updateYAMLValue = (
+    content: string,
+    key: string,
+    value: string | null
+  ): string => {
+    const yamlValueRegex = new RegExp(`^${key}: .*$`, 'm');
     const yamlBlockMatch = content.match(/---\n([\s\S]*?)\n---/m);
 
     if (yamlBlockMatch && yamlBlockMatch.length > 1) {
       let yamlBlock = yamlBlockMatch[1];
-      if (yamlStartTimeRegex.test(yamlBlock)) {
-        yamlBlock = yamlBlock.replace(
-          yamlStartTimeRegex,
-          `startTime: ${formattedTime}`
-        );
+      if (value === null) {
+        yamlBlock = yamlBlock
+          .split('\n')
+          .filter((line) => !yamlValueRegex.test(line))
+          .join('\n');
+      } else if (yamlValueRegex.test(yamlBlock)) {
+        yamlBlock = yamlBlock.replace(yamlValueRegex, `${key}: ${value}`);
       } else {
-        yamlBlock = yamlBlock + `\nstartTime: ${formattedTime}`;
+        yamlBlock = yamlBlock + `\n${key}: ${value}`;
       }
       return content.replace(/---\n([\s\S]*?)\n---/m, `---\n${yamlBlock}\n---`);
-    } else {
-      return `---\nstartTime: ${formattedTime}\n---\n` + content;
+    } else if (value !== null) {
+      return `---\n${key}: ${value}\n---\n` + content;
     }
+    return content;
+  };
+
+  const updateStartTimeInYAML = (content: string, startTime: Date): string => {
+    content = updateYAMLValue(content, 'startTime', formatYamlTime(startTime));
+    // Pauses belong to the task that just ended.
+    return updateYAMLValue(content, 'pauses', null);
+  };
+
+  const updatePausesInYAML = (
+    content: string,
+    pauses: PauseSegment[]
+  ): string => {
+    const formattedPauses = pauses
+      .map(
+        ({ start, end }) =>
+          `${formatYamlTime(start)}/${end ? formatYamlTime(end) : ''}`
+      )
+      .join(', ');
+    return updateYAMLValue(content, 'pauses', formattedPauses || null);
   };
 
   const getElapsedTime = (content: string) => {
-    const taskParser = TaskParser.fromSettings(plugin.settings);
-    const startTime = taskParser.getYamlStartTime(content);
+    const taskParser = TaskParser.fromSettings(plugin.getEffectiveSettings());
+    const noteDate = getNoteDate(plugin.targetFile);
+    const startTime = taskParser.getYamlStartTime(content, noteDate);
     if (!startTime) return 0;
-    let elapsedTimeInMinutes = (Date.now() - startTime.getTime()) / 60000;
-    if (elapsedTimeInMinutes < 0) {
-      elapsedTimeInMinutes += 24 * 60;
+    const pausedTime = calculatePausedTime(
+      taskParser.getYamlPauses(content, noteDate)
+    );
+    let elapsedTimeInMinutes =
+      (Date.now() - startTime.getTime() - pausedTime) / 60000;
+    // Pomodoro breaks taken during the task are not part of its actual time.
+    const pomodoroSettings = getPomodoroSettings(
+      plugin.getEffectiveSettings(),
+      DynamicTimetable.DEFAULT_SETTINGS
+    );
+    if (pomodoroSettings) {
+      elapsedTimeInMinutes =
+        getWorkTime(
+          elapsedTimeInMinutes * 60000,
+          pomodoroSettings,
+          taskParser.getYamlPomodoroMinutes(content) * 60000
+        ) / 60000;
     }
     return Math.max(0, Math.floor(elapsedTimeInMinutes));
   };
 
+  const getSyntaxes = (file: TFile | null = plugin.targetFile) => {
+    const settings = plugin.getEffectiveSettings(file);
+    return getTaskSyntaxes(
+      settings.taskSyntaxes,
+      settings.taskEstimateDelimiter,
+      settings.startTimeDelimiter
+    );
+  };
+
+  // Returns null when the note no longer has the task unchecked.
   const updateTaskInContent = (
     content: string,
-    { elapsedTime, remainingTime }: TaskUpdate
-  ): string => {
-    const taskRegex = new RegExp(
-      `^- \\[ \\] (.+?)\\s*${plugin.settings.taskEstimateDelimiter.replace(
-        /[.*+?^${}()|[\]\\]/g,
-        '\\$&'
-      )}\\s*(\\d+\\.?\\d*)?(\\s*@\\s*\\d{1,2}[:]?\\d{2})?(\\s*#.*)?\\s*$`,
-      'm'
+    { task, elapsedTime, remainingTime }: TaskUpdate,
+    file: TFile | null = plugin.targetFile
+  ): string | null => {
+    const syntaxes = getSyntaxes(file);
+    const { estimateFormat } = plugin.getEffectiveSettings(file);
+    const taskParser = TaskParser.fromSettings(
+      plugin.getEffectiveSettings(file)
     );
+    const tagRegex = /\s#([^\s!#$%&'()*+,.\/:;<=>?@[\\\]^`{|}~]+)/gu;
 
     const lines = content.split('\n');
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const taskMatch = line.match(taskRegex);
-      if (taskMatch) {
-        const originalTaskName = taskMatch[1];
-        const tags =
-          line
-            .match(/\s#([^\s!#$%&'()*+,.\/:;<=>?@[\\\]^`{|}~]+)/gu)
-            ?.join(' ') || '';
-        const actualStartTime = new Date(Date.now() - elapsedTime * 60 * 1000);
-
-        lines[i] = `- [x] ${originalTaskName.replace(tags, '').trim()} ${
-          plugin.settings.taskEstimateDelimiter
-        } ${elapsedTime.toFixed(0)} @ ${formatTime(actualStartTime)} ${tags}`;
-
-        if (remainingTime !== undefined) {
-          const newTaskToAdd = `- [ ] ${originalTaskName
-            .replace(tags, '')
-            .trim()} ${
-            plugin.settings.taskEstimateDelimiter
-          } ${remainingTime.toFixed(0)} ${tags}`;
-          lines.splice(i + 1, 0, newTaskToAdd);
-        }
-        break;
-      }
+    // Prefer the line the task was parsed from. If the note has changed
+    // since then, the nearest unchecked line with the same name is used.
+    const i = lines
+      .map((_, index) => index)
+      .sort(
+        (a, b) => Math.abs(a - task.lineNumber) - Math.abs(b - task.lineNumber)
+      )
+      .find(
+        (index) =>
+          /^\s*- \[ \] .+$/.test(lines[index]) &&
+          taskParser.parseTaskName(lines[index].trim()).originalTaskName ===
+            task.originalTaskName
+      );
+    if (i === undefined) {
+      return null;
+    }
+
+    const line = lines[i];
+    const taskMatch = line.match(/^(\s*)- \[ \] (.+)$/) as RegExpMatchArray;
+    // Deadlines and tags are set aside so they can sit anywhere in the
+    // line, and the estimate and start time are written back in the
+    // syntax the line uses.
+    const deadline =
+      line
+        .match(DEADLINE_REGEX)
+        ?.map((token) => token.trim())
+        .join(' ') || '';
+    const tags = line.match(tagRegex)?.join(' ') || '';
+    const syntax = findLineSyntax(line, syntaxes);
+    const originalTaskName = syntaxes
+      .reduce(
+        (name, { estimateRegex, startTimeRegex }) =>
+          name
+            .replace(withLeadingSpace(estimateRegex), '')
+            .replace(withLeadingSpace(startTimeRegex), ''),
+        taskMatch[2].replace(DEADLINE_REGEX, '').replace(PLANNED_REGEX, '')
+      )
+      .replace(tagRegex, '')
+      .trim();
+    const actualStartTime = new Date(Date.now() - elapsedTime * 60 * 1000);
+    const indent = taskMatch[1];
+    // The estimate is kept for comparing plans with actual times. On an
+    // interrupt, the part left over stays planned for the new task.
+    const estimate = parseFloat(task.estimate || '0');
+    const plannedTime =
+      remainingTime === undefined
+        ? estimate
+        : Math.max(0, estimate - remainingTime);
+
+    lines[i] = `${indent}- [x] ${originalTaskName} ${syntax.formatEstimate(
+      formatEstimate(elapsedTime, estimateFormat)
+    )} ${syntax.formatStartTime(formatTime(actualStartTime))} ${[
+      `planned:${formatEstimate(plannedTime, estimateFormat)}`,
+      tags,
+      deadline,
+    ]
+      .filter(Boolean)
+      .join(' ')}`;
+
+    if (remainingTime !== undefined) {
+      const newTaskToAdd = `${indent}- [ ] ${originalTaskName} ${syntax.formatEstimate(
+        formatEstimate(remainingTime, estimateFormat)
+      )} ${[tags, deadline].filter(Boolean).join(' ')}`;
+      lines.splice(i + 1, 0, newTaskToAdd);
     }
     return lines.join('\n');
   };
 
+  const readSources = async (): Promise<TaskSource[]> =>
+    Promise.all(
+      plugin.sourceFiles.map(async (file) => ({
+        filePath: file.path,
+        content: await plugin.app.vault.cachedRead(file),
+        date: getNoteDate(file),
+      }))
+    );
+
+  const getDictionaryFile = (): TFile | null =>
+    plugin.app.metadataCache.getFirstLinkpathDest(
+      plugin.settings.pathToDictionary,
+      '/'
+    );
+
+  // Reads the trimmed mean stored for each task name in the dictionary.
+  const readHistoricalEstimates = async (): Promise<Record<string, number>> => {
+    const dictionaryFile = getDictionaryFile();
+    if (!dictionaryFile) {
+      return {};
+    }
+
+    const content = await plugin.app.vault.cachedRead(dictionaryFile);
+    const lineRegex = new RegExp(
+      `^(.+?) ${escapeRegExp(plugin.settings.taskEstimateDelimiter)}([^,]+),`
+    );
+    const estimates: Record<string, number> = {};
+    content.split('\n').forEach((line) => {
+      const match = line.match(lineRegex);
+      const minutes = match ? parseEstimateToMinutes(match[2]) : null;
+      if (match && minutes !== null) {
+        estimates[match[1]] = minutes;
+      }
+    });
+    return estimates;
+  };
+
+  const loadHistoricalEstimates = async () => {
+    plugin.historicalEstimates = plugin.getEffectiveSettings()
+      .inferMissingEstimates
+      ? await readHistoricalEstimates()
+      : {};
+  };
+
+  // Reads today's timed events from the calendar file, if one is set.
+  const loadCalendarEvents = async () => {
+    const calendarFile = plugin.getCalendarFile();
+    if (!calendarFile) {
+      plugin.calendarEvents = [];
+      return;
+    }
+
+    const content = await plugin.app.vault.cachedRead(calendarFile);
+    plugin.calendarEvents = parseICalendar(content).filter((event) =>
+      moment(event.start).isSame(moment(), 'day')
+    );
+  };
+
+  const createTaskParser = () =>
+    TaskParser.fromSettings(plugin.getEffectiveSettings())
+      .withHistoricalEstimates(plugin.historicalEstimates)
+      .withCalendarEvents(plugin.calendarEvents)
+      .withPomodoro(
+        getPomodoroSettings(
+          plugin.getEffectiveSettings(),
+          DynamicTimetable.DEFAULT_SETTINGS
+        )
+      );
+
+  // Each note's lines are read with its own frontmatter overrides, while
+  // the schedule follows the settings of the target file.
+  const withNoteParsers = (sources: TaskSource[]): TaskSource[] =>
+    sources.map((source) => {
+      const file = plugin.app.vault.getAbstractFileByPath(source.filePath);
+      return file instanceof TFile
+        ? {
+            ...source,
+            parser: TaskParser.fromSettings(
+              plugin.getEffectiveSettings(file)
+            ).withHistoricalEstimates(plugin.historicalEstimates),
+          }
+        : source;
+    });
+
+  const parseTasks = async (): Promise<Task[]> => {
+    await loadHistoricalEstimates();
+    await loadCalendarEvents();
+    return createTaskParser().filterAndParseSources(
+      withNoteParsers(await readSources())
+    );
+  };
+
+  const getTaskFile = (task: Task): TFile | null => {
+    const file = plugin.app.vault.getAbstractFileByPath(task.filePath);
+    return file instanceof TFile ? file : plugin.targetFile;
+  };
+
   const initializeTasks = async () => {
     if (!plugin.targetFile) {
       return [];
     }
-    const content = await plugin.app.vault.cachedRead(plugin.targetFile);
-    const taskParser = TaskParser.fromSettings(plugin.settings);
-    let tasks: Task[] = taskParser.filterAndParseTasks(content);
+    await loadHistoricalEstimates();
+    await loadCalendarEvents();
+    return buildTasks(await readSources());
+  };
+
+  const buildTasks = (sources: TaskSource[]): Task[] => {
+    if (!plugin.targetFile) {
+      return [];
+    }
+    const tasks: Task[] = createTaskParser().filterAndParseSources(
+      withNoteParsers(sources)
+    );
 
     let previousTaskEndTime = null;
-    for (let task of tasks) {
+    for (const task of tasks) {
       task.previousTaskEndTime = previousTaskEndTime;
       previousTaskEndTime = task.endTime;
     }
 
     if (tasks.length > 0 && tasks[0].startTime === null) {
       tasks[0].startTime = new Date(plugin.targetFile.stat.mtime);
-      tasks[0].endTime = new Date(tasks[0].startTime);
-      tasks[0].endTime.setMinutes(
-        tasks[0].endTime.getMinutes() + Number(tasks[0].estimate)
+      tasks[0].endTime = new Date(
+        tasks[0].startTime.getTime() + Number(tasks[0].estimate) * 60000
       );
     }
     return tasks;
   };
 
-  const updateTask = async (task: Task, remainingTime?: number) => {
-    if (!plugin.targetFile || !task.estimate) {
+  const getIndentWidth = (line: string): number =>
+    (line.match(/^\s*/)?.[0] || '').replace(/\t/g, '    ').length;
+
+  // A task's block is its own line plus the more indented lines below it.
+  const getBlockRange = (lines: string[], lineNumber: number) => {
+    const indent = getIndentWidth(lines[lineNumber]);
+    let end = lineNumber + 1;
+    while (
+      end < lines.length &&
+      lines[end].trim() !== '' &&
+      getIndentWidth(lines[end]) > indent
+    ) {
+      end++;
+    }
+    return { start: lineNumber, end };
+  };
+
+  /**
+   * Moves a task and its subtasks before or after another task. The moved
+   * block is re-indented to become a sibling of the target. `origins` maps
+   * every resulting line back to where it came from.
+   */
+  const moveTaskBlock = (
+    sources: TaskSource[],
+    task: LineOrigin,
+    target: LineOrigin,
+    position: DropPosition
+  ): { sources: TaskSource[]; origins: Record<string, LineOrigin[]> } => {
+    const fileLines = new Map(
+      sources.map(({ filePath, content }) => [
+        filePath,
+        content.split('\n').map((text, lineNumber) => ({
+          text,
+          origin: { filePath, lineNumber },
+        })),
+      ])
+    );
+    const toResult = () => ({
+      sources: sources.map((source) => ({
+        ...source,
+        content: (fileLines.get(source.filePath) || [])
+          .map((line) => line.text)
+          .join('\n'),
+      })),
+      origins: Object.fromEntries(
+        [...fileLines].map(([filePath, lines]) => [
+          filePath,
+          lines.map((line) => line.origin),
+        ])
+      ),
+    });
+
+    const sourceLines = fileLines.get(task.filePath);
+    const targetLines = fileLines.get(target.filePath);
+    if (!sourceLines?.[task.lineNumber] || !targetLines?.[target.lineNumber]) {
+      return toResult();
+    }
+
+    const block = getBlockRange(
+      sourceLines.map((line) => line.text),
+      task.lineNumber
+    );
+    if (
+      task.filePath === target.filePath &&
+      block.start <= target.lineNumber &&
+      target.lineNumber < block.end
+    ) {
+      return toResult();
+    }
+
+    const movedLines = sourceLines.splice(block.start, block.end - block.start);
+    const targetIndex = targetLines.findIndex(
+      (line) =>
+        line.origin.filePath === target.filePath &&
+        line.origin.lineNumber === target.lineNumber
+    );
+    const targetBlock = getBlockRange(
+      targetLines.map((line) => line.text),
+      targetIndex
+    );
+
+    const blockIndent = movedLines[0].text.match(/^\s*/)?.[0] || '';
+    const targetIndent = targetLines[targetIndex].text.match(/^\s*/)?.[0] || '';
+    movedLines.forEach((line) => {
+      if (line.text.startsWith(blockIndent)) {
+        line.text = targetIndent + line.text.slice(blockIndent.length);
+      }
+    });
+
+    targetLines.splice(
+      position === 'before' ? targetBlock.start : targetBlock.end,
+      0,
+      ...movedLines
+    );
+    return toResult();
+  };
+
+  const moveTask = async (
+    task: LineOrigin,
+    target: LineOrigin,
+    position: DropPosition
+  ) => {
+    const sources = await readSources();
+    const moved = moveTaskBlock(sources, task, target, position);
+    for (const source of moved.sources) {
+      const original = sources.find((s) => s.filePath === source.filePath);
+      const file = plugin.app.vault.getAbstractFileByPath(source.filePath);
+      if (original?.content !== source.content && file instanceof TFile) {
+        await plugin.app.vault.modify(file, source.content);
+      }
+    }
+  };
+
+  // New fragments go before the tags so that the line keeps the usual
+  // `name ; estimate @ start #tags` order.
+  const insertFragment = (line: string, fragment: string): string => {
+    const tagMatch = line.match(/\s#[^\s#]/u);
+    if (tagMatch && tagMatch.index !== undefined) {
+      return `${line.slice(0, tagMatch.index)} ${fragment}${line.slice(
+        tagMatch.index
+      )}`;
+    }
+    return `${line.trimEnd()} ${fragment}`;
+  };
+
+  const setEstimateInLine = (
+    line: string,
+    estimate: string,
+    file: TFile | null = plugin.targetFile
+  ): string => {
+    const syntaxes = getSyntaxes(file);
+    const current = syntaxes.find(({ estimateRegex }) =>
+      estimateRegex.test(line)
+    );
+    if (current) {
+      return line.replace(
+        withLeadingSpace(current.estimateRegex),
+        estimate ? ` ${current.formatEstimate(estimate)}` : ''
+      );
+    }
+    if (!estimate) {
+      return line;
+    }
+    const syntax = findLineSyntax(line, syntaxes);
+    const fragment = ` ${syntax.formatEstimate(estimate)}`;
+    const startTimeMatch = line.match(withLeadingSpace(syntax.startTimeRegex));
+    if (startTimeMatch && startTimeMatch.index !== undefined) {
+      return (
+        line.slice(0, startTimeMatch.index) +
+        fragment +
+        line.slice(startTimeMatch.index)
+      );
+    }
+    return insertFragment(line, fragment.trim());
+  };
+
+  const setStartTimeInLine = (
+    line: string,
+    startTime: string,
+    file: TFile | null = plugin.targetFile
+  ): string => {
+    const syntaxes = getSyntaxes(file);
+    const current = matchStartTime(line, syntaxes);
+    if (current) {
+      const { syntax, match } = current;
+      return line.replace(
+        withLeadingSpace(syntax.startTimeRegex),
+        startTime ? ` ${syntax.formatStartTime(startTime, match[1])}` : ''
+      );
+    }
+    return startTime
+      ? insertFragment(
+          line,
+          findLineSyntax(line, syntaxes).formatStartTime(startTime)
+        )
+      : line;
+  };
+
+  const updateTaskLine = async (
+    task: Task,
+    update: (line: string, file: TFile) => string
+  ) => {
+    const file = getTaskFile(task);
+    if (!file) {
+      return;
+    }
+    const content = await plugin.app.vault.cachedRead(file);
+    const lines = content.split('\n');
+    const line = lines[task.lineNumber];
+    const taskParser = TaskParser.fromSettings(
+      plugin.getEffectiveSettings(file)
+    );
+    if (
+      line === undefined ||
+      !/^\s*[-+*] \[[ x]\]/.test(line) ||
+      taskParser.parseTaskName(line.trim()).originalTaskName !==
+        task.originalTaskName
+    ) {
+      new Notice('The task has changed in the note. Please try again.');
+      return;
+    }
+    lines[task.lineNumber] = update(line, file);
+    await plugin.app.vault.modify(file, lines.join('\n'));
+  };
+
+  const updateTaskEstimate = async (task: Task, estimate: string) => {
+    if (estimate && parseEstimateToMinutes(estimate) === null) {
+      new Notice(`Invalid estimate: ${estimate}`);
+      return;
+    }
+    await updateTaskLine(task, (line, file) =>
+      setEstimateInLine(line, estimate, file)
+    );
+  };
+
+  const updateTaskStartTime = async (task: Task, startTime: string) => {
+    const match = startTime.match(/^(\d{1,2}):?(\d{2})$/);
+    if (
+      startTime &&
+      (!match || Number(match[1]) > 23 || Number(match[2]) > 59)
+    ) {
+      new Notice(`Invalid start time: ${startTime}`);
       return;
     }
+    const formattedTime = match
+      ? `${match[1].padStart(2, '0')}:${match[2]}`
+      : '';
+    await updateTaskLine(task, (line, file) =>
+      setStartTimeInLine(line, formattedTime, file)
+    );
+  };
+
+  const writeInferredEstimates = async () => {
+    const tasks = await parseTasks();
+    const inferredTasks = tasks.filter((task) => task.isEstimateInferred);
+    if (inferredTasks.length === 0) {
+      new Notice('No tasks without estimates have a history.');
+      return;
+    }
+
+    const filePaths = [...new Set(inferredTasks.map((task) => task.filePath))];
+    for (const filePath of filePaths) {
+      const file = plugin.app.vault.getAbstractFileByPath(filePath);
+      if (!(file instanceof TFile)) continue;
+      const lines = (await plugin.app.vault.cachedRead(file)).split('\n');
+      inferredTasks
+        .filter((task) => task.filePath === filePath && task.estimate)
+        .forEach((task) => {
+          lines[task.lineNumber] = setEstimateInLine(
+            lines[task.lineNumber],
+            formatEstimate(
+              parseFloat(task.estimate || '0'),
+              plugin.getEffectiveSettings(file).estimateFormat
+            ),
+            file
+          );
+        });
+      await plugin.app.vault.modify(file, lines.join('\n'));
+    }
+    new Notice(`Wrote estimates for ${inferredTasks.length} task(s).`);
+  };
+
+  // Returns the minutes worked on the task, or null if it was not updated.
+  const updateTask = async (
+    task: Task,
+    remainingTime?: number
+  ): Promise<number | null> => {
+    if (!plugin.targetFile || !task.estimate) {
+      return null;
+    }
+
+    const taskFile = getTaskFile(task);
+    if (!taskFile) {
+      return null;
+    }
 
     let content = await plugin.app.vault.cachedRead(plugin.targetFile);
     const elapsedTime = getElapsedTime(content);
-    await updateDictionaryFile(elapsedTime);
     const taskUpdate: TaskUpdate = { task, elapsedTime, remainingTime };
 
-    content = updateTaskInContent(content, taskUpdate);
+    const updatedContent = updateTaskInContent(
+      await plugin.app.vault.cachedRead(taskFile),
+      taskUpdate,
+      taskFile
+    );
+    if (updatedContent === null) {
+      new Notice('The task has changed in the note. Please try again.');
+      return null;
+    }
+    await updateDictionaryFile(task, elapsedTime);
+    content = updatedContent;
     // This prevents the toggled contents in the markdown from being unintentionally expanded.
-    await plugin.app.vault.modify(plugin.targetFile, content);
+    await undoManager.modifyFile(taskFile, content);
 
     const now = new Date();
     // Re-read the file and update the start time.
     content = await plugin.app.vault.cachedRead(plugin.targetFile);
     content = updateStartTimeInYAML(content, now);
-    await plugin.app.vault.modify(plugin.targetFile, content);
+    if (
+      getPomodoroSettings(
+        plugin.getEffectiveSettings(),
+        DynamicTimetable.DEFAULT_SETTINGS
+      )
+    ) {
+      content = logPomodoroWork(content, elapsedTime);
+    }
+    await undoManager.modifyFile(plugin.targetFile, content);
+    return elapsedTime;
+  };
+
+  // The work time logged today tells where the pomodoro cycle stands.
+  const logPomodoroWork = (content: string, workMinutes: number): string => {
+    const taskParser = TaskParser.fromSettings(plugin.getEffectiveSettings());
+    const loggedMinutes = taskParser.getYamlPomodoroMinutes(content);
+    content = updateYAMLValue(
+      content,
+      'pomodoroMinutes',
+      (loggedMinutes + workMinutes).toString()
+    );
+    return updateYAMLValue(
+      content,
+      'pomodoroDate',
+      moment().format('YYYY-MM-DD')
+    );
   };
 
   const completeTask = async (task: Task) => {
-    await updateTask(task, undefined);
+    const elapsedTime = await undoManager.track(
+      `completing "${task.task}"`,
+      () => updateTask(task, undefined)
+    );
 
     if (!plugin.targetFile) {
       return;
     }
 
-    let content = await plugin.app.vault.cachedRead(plugin.targetFile);
-    const taskParser = TaskParser.fromSettings(plugin.settings);
-    let tasks: Task[] = taskParser.filterAndParseTasks(content);
-    const nextUncompletedTask = tasks.find((t) => !t.isCompleted && t !== task);
-
-    if (nextUncompletedTask && plugin.settings.customUrlScheme) {
-      let customUrl = plugin.settings.customUrlScheme;
-
-      const nextTaskName = nextUncompletedTask.task;
-      const nextTaskEstimate = nextUncompletedTask.estimate;
-      if (!nextTaskEstimate) {
-        return;
+    const tasks: Task[] = await parseTasks();
+    const nextUncompletedTask = findCurrentTask(tasks);
+    if (elapsedTime !== null) {
+      plugin.api.trigger('task-completed', task, elapsedTime);
+      if (nextUncompletedTask) {
+        plugin.api.trigger('task-started', nextUncompletedTask);
+      } else {
+        plugin.api.trigger('day-finished', task);
       }
+    }
 
-      const nextTaskMinutes = parseInt(nextTaskEstimate);
-      const nextTaskSeconds = nextTaskMinutes * 60;
-
-      customUrl = customUrl.replace('{{minutes}}', nextTaskMinutes.toString());
-      customUrl = customUrl.replace('{{seconds}}', nextTaskSeconds.toString());
-      customUrl = customUrl.replace(
-        '{{taskName}}',
-        encodeURIComponent(nextTaskName)
-      );
-
-      window.open(customUrl);
+    if (task.parent) {
+      offerToCompleteParent(tasks, task.parent);
     }
   };
 
@@ -189,11 +738,10 @@ export const taskFunctions = (plugin: DynamicTimetable) => {
       return;
     }
     const content = await plugin.app.vault.cachedRead(plugin.targetFile);
-    const taskParser = TaskParser.fromSettings(plugin.settings);
-    let tasks: Task[] = taskParser.filterAndParseTasks(content);
-    let elapsedTime = getElapsedTime(content);
+    const tasks: Task[] = await parseTasks();
+    const elapsedTime = getElapsedTime(content);
     let remainingTime = 0;
-    const firstUncompletedTask = tasks.find((task) => !task.isCompleted);
+    const firstUncompletedTask = findCurrentTask(tasks);
     if (!firstUncompletedTask) return;
     if (firstUncompletedTask?.estimate) {
       remainingTime = Math.max(
@@ -202,26 +750,105 @@ export const taskFunctions = (plugin: DynamicTimetable) => {
       );
     }
 
-    await updateTask(firstUncompletedTask, remainingTime);
+    const updated = await undoManager.track(
+      `interrupting "${firstUncompletedTask.task}"`,
+      () => updateTask(firstUncompletedTask, remainingTime)
+    );
+    if (updated === null) return;
+
+    plugin.api.trigger(
+      'task-interrupted',
+      firstUncompletedTask,
+      elapsedTime,
+      remainingTime
+    );
+  };
+
+  const offerToCompleteParent = (tasks: Task[], parent: Task) => {
+    const currentParent = tasks.find(
+      (t) =>
+        t.filePath === parent.filePath && t.lineNumber === parent.lineNumber
+    );
+    if (
+      !currentParent ||
+      currentParent.isCompleted ||
+      !currentParent.children.every((child) => child.isCompleted)
+    ) {
+      return;
+    }
+
+    new ConfirmModal(
+      plugin.app,
+      'Complete parent task',
+      `All subtasks of "${currentParent.task}" are completed. Complete it as well?`,
+      () => completeParentTask(currentParent)
+    ).open();
+  };
+
+  const completeParentTask = async (parent: Task) => {
+    const file = getTaskFile(parent);
+    if (!file) {
+      return;
+    }
+    const content = await plugin.app.vault.cachedRead(file);
+    const lines = content.split('\n');
+    const line = lines[parent.lineNumber];
+    if (line === undefined || !/^\s*[-+*] \[ \]/.test(line)) {
+      return;
+    }
+    lines[parent.lineNumber] = line.replace('[ ]', '[x]');
+    await undoManager.track(`completing "${parent.task}"`, () =>
+      undoManager.modifyFile(file, lines.join('\n'))
+    );
   };
 
-  const updateDictionaryFile = async (elapsedTime: number) => {
+  const pauseTask = async () => {
     if (!plugin.targetFile) {
       return;
     }
-    const targetFileContent = await plugin.app.vault.cachedRead(
-      plugin.targetFile
+    let content = await plugin.app.vault.cachedRead(plugin.targetFile);
+    const taskParser = TaskParser.fromSettings(plugin.getEffectiveSettings());
+    const tasks: Task[] = await parseTasks();
+    if (!findCurrentTask(tasks)) return;
+
+    const pauses = taskParser.getYamlPauses(
+      content,
+      getNoteDate(plugin.targetFile)
     );
-    const taskParser = TaskParser.fromSettings(plugin.settings);
-    let tasks: Task[] = taskParser.filterAndParseTasks(targetFileContent);
-    const firstUncompletedTask = tasks.find((task) => !task.isCompleted);
-    if (!firstUncompletedTask) return;
+    const lastPause = pauses[pauses.length - 1];
+    if (lastPause && !lastPause.end) {
+      new Notice('The current task is already paused.');
+      return;
+    }
 
-    const dictionaryPath = plugin.settings.pathToDictionary;
-    const dictionaryFile = plugin.app.metadataCache.getFirstLinkpathDest(
-      dictionaryPath,
-      '/'
+    pauses.push({ start: new Date(), end: null });
+    content = updatePausesInYAML(content, pauses);
+    await plugin.app.vault.modify(plugin.targetFile, content);
+  };
+
+  const resumeTask = async () => {
+    if (!plugin.targetFile) {
+      return;
+    }
+    let content = await plugin.app.vault.cachedRead(plugin.targetFile);
+    const taskParser = TaskParser.fromSettings(plugin.getEffectiveSettings());
+    const pauses = taskParser.getYamlPauses(
+      content,
+      getNoteDate(plugin.targetFile)
     );
+    const lastPause = pauses[pauses.length - 1];
+    if (!lastPause || lastPause.end) {
+      new Notice('The current task is not paused.');
+      return;
+    }
+
+    lastPause.end = new Date();
+    content = updatePausesInYAML(content, pauses);
+    await plugin.app.vault.modify(plugin.targetFile, content);
+  };
+
+  const updateDictionaryFile = async (task: Task, elapsedTime: number) => {
+    const dictionaryFile = getDictionaryFile();
 
     if (!dictionaryFile) {
       return;
@@ -229,12 +856,8 @@ export const taskFunctions = (plugin: DynamicTimetable) => {
 
     let content = await plugin.app.vault.cachedRead(dictionaryFile);
 
-    const escapeRegExp = (string: string) => {
-      return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    };
-
     const taskLineRegex = new RegExp(
-      `^${escapeRegExp(firstUncompletedTask.originalTaskName)} ${
+      `^${escapeRegExp(task.originalTaskName)} ${
         plugin.settings.taskEstimateDelimiter
       }(.+)$`,
       'm'
@@ -264,10 +887,14 @@ export const taskFunctions = (plugin: DynamicTimetable) => {
     trimmedMean = calculateTrimmedMean(recentTimes);
     median = calculateMedian(recentTimes);
 
-    const newLine = `${firstUncompletedTask.originalTaskName} ${
+    const format = (minutes: number) =>
+      formatEstimate(minutes, plugin.settings.estimateFormat);
+    const newLine = `${task.originalTaskName} ${
       plugin.settings.taskEstimateDelimiter
-    }${trimmedMean},Trimmed Mean: ${trimmedMean} Median: ${median} Recent: ${elapsedTime},${
-      firstUncompletedTask.task
+    }${format(trimmedMean)},Trimmed Mean: ${format(
+      trimmedMean
+    )} Median: ${format(median)} Recent: ${format(elapsedTime)},${
+      task.task
     }%%${recentTimes.join('|')}%%`;
 
     if (match) {
@@ -276,7 +903,7 @@ export const taskFunctions = (plugin: DynamicTimetable) => {
       content += '\n' + newLine;
     }
 
-    await plugin.app.vault.modify(dictionaryFile, content);
+    await undoManager.modifyFile(dictionaryFile, content);
     await (plugin.app as any).commands.executeCommandById(
       'various-complements:reload-custom-dictionaries'
     );
@@ -303,11 +930,23 @@ export const taskFunctions = (plugin: DynamicTimetable) => {
 
   return {
     initializeTasks,
+    buildTasks,
+    readSources,
+    parseTasks,
     completeTask,
     interruptTask,
+    pauseTask,
+    resumeTask,
     getElapsedTime,
     updateTask,
     updateTaskInContent,
+    moveTaskBlock,
+    moveTask,
+    updateTaskEstimate,
+    updateTaskStartTime,
+    setEstimateInLine,
+    readHistoricalEstimates,
+    writeInferredEstimates,
     formatTime,
   };
 };
@@ -1,29 +1,111 @@
 import { DynamicTimetableSettings } from './main';
+import { ESTIMATE_PATTERN, parseEstimateToMinutes } from './EstimateUtils';
+import { CalendarEvent } from './ICalendar';
+import {
+  TaskSyntax,
+  TaskSyntaxName,
+  getTaskSyntaxes,
+  matchStartTime,
+} from './TaskSyntax';
+import {
+  PomodoroBreak,
+  PomodoroSettings,
+  createPomodoroState,
+  getBreakLength,
+  isLongBreak,
+} from './Pomodoro';
+
+export interface PauseSegment {
+  start: Date;
+  end: Date | null;
+}
 
 export interface Task {
   originalTaskName: string;
   task: string;
   startTime: Date | null;
   estimate: string | null;
+  isEstimateInferred: boolean;
+  // The estimate a completed task had before its actual time replaced it.
+  plannedEstimate: string | null;
   endTime: Date | null;
   isCompleted: boolean;
   originalStartTime: boolean;
+  isCalendarEvent: boolean;
   categories: string[];
+  pauses: PauseSegment[];
+  breaks: PomodoroBreak[];
+  deadline: Date | null;
+  filePath: string;
+  lineNumber: number;
+  level: number;
+  parent: Task | null;
+  children: Task[];
+}
+
+// `due:17:00`, or a Tasks-plugin due date with an optional time.
+export const DEADLINE_REGEX =
+  /\s*(?:due:\d{1,2}:\d{2}|📅\s*\d{4}-\d{2}-\d{2}(?:\s+\d{1,2}:\d{2})?)(?=\s|$)/gu;
+
+// `planned:30`, written on completion next to the actual time.
+export const PLANNED_REGEX = new RegExp(
+  `\\s*planned:(${ESTIMATE_PATTERN})(?=\\s|$)`,
+  'u'
+);
+
+/**
+ * Time per category: `actualTime` of completed tasks, `estimatedTime` of
+ * open ones, and `plannedTime`, what the completed tasks were planned at.
+ */
+export type CategoryPerformance = {
+  estimatedTime: number;
+  actualTime: number;
+  plannedTime: number;
+};
+
+// Tasks completed before plans were recorded count as done as planned.
+export const getPlannedMinutes = (task: Task): number =>
+  parseFloat(task.plannedEstimate || task.estimate || '0');
+
+export interface TaskSource {
+  filePath: string;
+  content: string;
+  // The day that `@ HH:MM` start times refer to. Defaults to today.
+  date?: Date;
+  // Reads the note's lines with its own settings. Defaults to this parser.
+  parser?: TaskParser;
 }
 
+export const calculatePausedTime = (
+  pauses: PauseSegment[],
+  now: Date = new Date()
+): number =>
+  pauses.reduce(
+    (total, { start, end }) =>
+      total + Math.max(0, (end || now).getTime() - start.getTime()),
+    0
+  );
+
 export class TaskParser {
   private dateDelimiter: RegExp;
   private showUntilRegex: RegExp;
+  private historicalEstimates: Record<string, number> = {};
+  private calendarEvents: CalendarEvent[] = [];
+  private pomodoroSettings: PomodoroSettings | null = null;
+  private syntaxes: TaskSyntax[];
 
   constructor(
-    private separator: string,
-    private startTimeDelimiter: string,
+    separator: string,
+    startTimeDelimiter: string,
     dateDelimiter: string,
     private showStartTimeInTaskName: boolean,
     private showEstimateInTaskName: boolean,
     private showCategoryNamesInTask: boolean,
-    showUntilRegex: string
+    showUntilRegex: string,
+    private autoSchedule = false,
+    syntaxNames: TaskSyntaxName[] = ['delimiter']
   ) {
+    this.syntaxes = getTaskSyntaxes(syntaxNames, separator, startTimeDelimiter);
     this.dateDelimiter = dateDelimiter ? new RegExp(dateDelimiter) : /(?!x)x/;
     this.showUntilRegex = showUntilRegex
       ? new RegExp(showUntilRegex)
@@ -38,99 +120,492 @@ export class TaskParser {
       settings.showStartTimeInTaskName,
       settings.showEstimateInTaskName,
       settings.showCategoryNamesInTask,
-      settings.showUntilRegex
+      settings.showUntilRegex,
+      settings.autoSchedule,
+      settings.taskSyntaxes
+    );
+  }
+
+  /**
+   * Supplies estimates, keyed by task name, for tasks that have none.
+   */
+  public withHistoricalEstimates(estimates: Record<string, number>): this {
+    this.historicalEstimates = estimates;
+    return this;
+  }
+
+  /**
+   * Supplies fixed appointments that are merged into the schedule by their
+   * start time. Tasks without a fixed start are pushed past them.
+   */
+  public withCalendarEvents(events: CalendarEvent[]): this {
+    this.calendarEvents = [...events].sort(
+      (a, b) => a.start.getTime() - b.start.getTime()
     );
+    return this;
+  }
+
+  /** Enables pomodoro breaks in the schedule when settings are given. */
+  public withPomodoro(settings: PomodoroSettings | null): this {
+    this.pomodoroSettings = settings;
+    return this;
   }
 
-  public filterAndParseTasks(content: string): Task[] {
+  public filterAndParseTasks(content: string, filePath = ''): Task[] {
+    return this.filterAndParseSources([{ filePath, content }]);
+  }
+
+  /**
+   * Parses several notes into a single schedule. The YAML start time and
+   * pauses are read from the first source, which holds the timer state.
+   * Indented tasks become subtasks of the task above them; only tasks
+   * without subtasks take up time in the schedule.
+   */
+  public filterAndParseSources(sources: TaskSource[]): Task[] {
     let previousEndTime: Date | null = null;
     let firstUncompletedTaskFound = false;
-    let nextDay = 0;
-    let dateDelimiterFound = false;
-    let stopParsing = false;
 
-    const yamlStartTime = this.getYamlStartTime(content);
-    const tasks = content
-      .split('\n')
-      .map((line) => line.trim())
-      .reduce((acc: Task[], task) => {
-        if (stopParsing) return acc;
-        if (this.isDateDelimiterLine(task)) {
+    const yamlStartTime =
+      sources.length > 0
+        ? this.getYamlStartTime(sources[0].content, sources[0].date)
+        : null;
+    const yamlPauses =
+      sources.length > 0
+        ? this.getYamlPauses(sources[0].content, sources[0].date)
+        : [];
+    const explicitEstimates = new Map<Task, boolean>();
+    const pendingEvents = [...this.calendarEvents];
+
+    // Adds the events that begin by `time` and returns when the schedule is
+    // free again. A flexible task, given with its duration, also waits for
+    // events that would begin before it ends, so it never runs into one.
+    const insertEventsBefore = (
+      acc: Task[],
+      time: Date,
+      flexibleDuration: number | null = null
+    ): Date => {
+      let freeFrom = time;
+      const overlapsTask = (event: CalendarEvent) =>
+        event.start <= freeFrom ||
+        (flexibleDuration !== null &&
+          event.start.getTime() < freeFrom.getTime() + flexibleDuration);
+      while (pendingEvents.length > 0 && overlapsTask(pendingEvents[0])) {
+        const event = pendingEvents.shift() as CalendarEvent;
+        acc.push(this.createEventTask(event));
+        if (flexibleDuration !== null && event.end > freeFrom) {
+          freeFrom = event.end;
+        }
+      }
+      return freeFrom;
+    };
+
+    const tasks = sources.reduce((acc: Task[], source) => {
+      const { filePath, content, date } = source;
+      const parser = source.parser || this;
+      let nextDay = 0;
+      let dateDelimiterFound = false;
+      let stopParsing = false;
+      let parents: { indent: number; task: Task | null }[] = [];
+
+      const lines = content.split('\n');
+      lines.forEach((line, lineNumber) => {
+        const task = line.trim();
+        if (stopParsing) return;
+        if (parser.isDateDelimiterLine(task)) {
           if (firstUncompletedTaskFound) {
             dateDelimiterFound = true;
           }
-          return acc;
+          parents = [];
+          return;
         }
-        if (this.showUntilRegex.test(task)) {
+        if (parser.showUntilRegex.test(task)) {
           stopParsing = true;
-          return acc;
+          return;
         }
 
-        if (
-          !task.startsWith('- [ ]') &&
-          !task.startsWith('- [x]') &&
-          !task.startsWith('+ [ ]') &&
-          !task.startsWith('+ [x]') &&
-          !task.startsWith('* [ ]') &&
-          !task.startsWith('* [x]')
-        ) {
-          return acc;
+        if (!parser.isTaskLine(task)) {
+          if (task && parser.getIndent(line) === 0) {
+            parents = [];
+          }
+          return;
         }
 
         const isCompleted =
           task.startsWith('- [x]') ||
           task.startsWith('+ [x]') ||
           task.startsWith('* [x]');
-        const { taskName, originalTaskName } = this.parseTaskName(task);
+        const { taskName, originalTaskName } = parser.parseTaskName(task);
 
         if (dateDelimiterFound) {
           nextDay++;
           dateDelimiterFound = false;
         }
 
-        const estimate = this.parseEstimate(task);
-        const categories = this.parseCategories(task);
+        const indent = parser.getIndent(line);
+        while (
+          parents.length > 0 &&
+          parents[parents.length - 1].indent >= indent
+        ) {
+          parents.pop();
+        }
+        const parent =
+          parents.length > 0 ? parents[parents.length - 1].task : null;
+        const hasSubtasks = parser.hasScheduledSubtasks(lines, lineNumber);
+
+        let estimate = parser.parseEstimate(task);
+        let isEstimateInferred = false;
+        const historicalEstimate = parser.historicalEstimates[originalTaskName];
+        if (!estimate && !hasSubtasks && historicalEstimate !== undefined) {
+          estimate = historicalEstimate.toString();
+          isEstimateInferred = true;
+        }
+        const categories = parser.parseCategories(task);
 
-        let startTime = this.parseStartTime(task, nextDay);
+        let startTime = parser.parseStartTime(task, nextDay, date);
+        const deadline = parser.parseDeadline(task, nextDay, date);
         const originalStartTime = Boolean(startTime);
+        let pauses: PauseSegment[] = [];
+        let endTime: Date | null = null;
 
-        if (!isCompleted && !firstUncompletedTaskFound) {
-          startTime = yamlStartTime;
-          firstUncompletedTaskFound = true;
-        } else if (!startTime && previousEndTime) {
-          startTime = previousEndTime;
+        if (hasSubtasks) {
+          // A fixed start time on a parent applies to its first subtask.
+          if (startTime && !isCompleted) {
+            previousEndTime = startTime;
+          }
+        } else {
+          if (!isCompleted && !firstUncompletedTaskFound) {
+            startTime = yamlStartTime;
+            pauses = yamlPauses;
+            firstUncompletedTaskFound = true;
+            if (estimate) {
+              insertEventsBefore(acc, startTime || new Date());
+            }
+          } else if (estimate && startTime) {
+            insertEventsBefore(acc, startTime);
+          } else if (estimate && previousEndTime) {
+            startTime = insertEventsBefore(
+              acc,
+              previousEndTime,
+              Number(estimate) * 60000
+            );
+          } else if (!startTime && previousEndTime) {
+            startTime = previousEndTime;
+          }
+
+          if (startTime && estimate) {
+            endTime = new Date(startTime.getTime() + Number(estimate) * 60000);
+            // Paused time pushes back the end of the current task.
+            endTime.setTime(endTime.getTime() + calculatePausedTime(pauses));
+            previousEndTime = endTime;
+          }
         }
 
-        let endTime: Date | null = null;
-        if (startTime && estimate) {
-          endTime = new Date(startTime);
-          endTime.setMinutes(endTime.getMinutes() + Number(estimate));
-          previousEndTime = endTime;
+        const parsedTask: Task = {
+          originalTaskName: originalTaskName,
+          task: taskName,
+          startTime: startTime,
+          estimate: estimate,
+          isEstimateInferred: isEstimateInferred,
+          plannedEstimate: parser.parsePlannedEstimate(task),
+          endTime: endTime,
+          isCompleted: isCompleted,
+          originalStartTime: originalStartTime,
+          isCalendarEvent: false,
+          categories: categories,
+          pauses: pauses,
+          breaks: [],
+          deadline: deadline,
+          filePath: filePath,
+          lineNumber: lineNumber,
+          level: parents.length,
+          parent: parent,
+          children: [],
+        };
+        parents.push({
+          indent,
+          task: hasSubtasks || estimate ? parsedTask : null,
+        });
+
+        if (hasSubtasks || estimate) {
+          if (parent) {
+            parent.children.push(parsedTask);
+          }
+          explicitEstimates.set(parsedTask, Boolean(estimate));
+          acc.push(parsedTask);
+        }
+      });
+
+      return acc;
+    }, []);
+    tasks.push(...pendingEvents.map((event) => this.createEventTask(event)));
+    if (this.autoSchedule) {
+      this.scheduleAroundFixedTasks(tasks);
+    }
+    if (this.pomodoroSettings && sources.length > 0) {
+      this.insertPomodoroBreaks(
+        tasks,
+        this.pomodoroSettings,
+        this.getYamlPomodoroMinutes(sources[0].content) * 60000
+      );
+    }
+
+    // Subtasks come after their parent, so walking backwards rolls up
+    // estimates and times from the bottom of the tree. A parent's own
+    // estimate only changes the total shown; its subtasks take up the time.
+    for (let i = tasks.length - 1; i >= 0; i--) {
+      const task = tasks[i];
+      if (task.children.length === 0) continue;
+
+      if (!explicitEstimates.get(task)) {
+        const openMinutes = task.children
+          .filter((child) => !child.isCompleted)
+          .reduce((total, child) => total + Number(child.estimate || 0), 0);
+        task.estimate = openMinutes.toString();
+      }
+
+      const childStartTimes = task.children
+        .map((child) => child.startTime)
+        .filter((time): time is Date => time !== null);
+      const childEndTimes = task.children
+        .map((child) => child.endTime)
+        .filter((time): time is Date => time !== null);
+      if (childStartTimes.length > 0) {
+        task.startTime = new Date(
+          Math.min(...childStartTimes.map((time) => time.getTime()))
+        );
+      }
+      if (childEndTimes.length > 0) {
+        task.endTime = new Date(
+          Math.max(...childEndTimes.map((time) => time.getTime()))
+        );
+      }
+    }
+
+    return tasks.filter((task) => task.estimate);
+  }
+
+  /**
+   * Reorders the tasks after the current one so that a task without a start
+   * time never runs into a fixed-start task or calendar event. Such a task
+   * and everything after it waits until the fixed block is over; the order
+   * of the flexible tasks is kept. Only the computed schedule changes.
+   */
+  private scheduleAroundFixedTasks(tasks: Task[]): void {
+    const currentIndex = this.findCurrentIndex(tasks);
+    if (currentIndex === -1) return;
+
+    const current = tasks[currentIndex];
+    const rest = tasks.slice(currentIndex + 1);
+    const leaves = rest.filter((task) => task.children.length === 0);
+    const isFixed = (task: Task) =>
+      task.isCalendarEvent || (!task.isCompleted && task.originalStartTime);
+    const fixed = leaves
+      .filter((task) => isFixed(task) && task.startTime && task.endTime)
+      .sort(
+        (a, b) =>
+          (a.startTime as Date).getTime() - (b.startTime as Date).getTime()
+      );
+    const flexible = leaves.filter(
+      (task) => !task.isCompleted && !isFixed(task)
+    );
+
+    // Completed tasks below the current one already happened, so they stay
+    // at the top of the rescheduled part.
+    const scheduled = leaves.filter(
+      (task) => task.isCompleted && !task.isCalendarEvent
+    );
+    let time =
+      current.endTime ||
+      new Date(Date.now() + Number(current.estimate || 0) * 60000);
+    flexible.forEach((task) => {
+      const duration = Number(task.estimate || 0) * 60000;
+      while (
+        fixed.length > 0 &&
+        (fixed[0].startTime as Date).getTime() < time.getTime() + duration
+      ) {
+        const block = fixed.shift() as Task;
+        scheduled.push(block);
+        if ((block.endTime as Date) > time) {
+          time = block.endTime as Date;
+        }
+      }
+      task.startTime = new Date(time);
+      task.endTime = new Date(time.getTime() + duration);
+      time = task.endTime;
+      scheduled.push(task);
+    });
+    scheduled.push(...fixed);
+
+    // Parent rows go right before their first subtask in the new order.
+    const ordered: Task[] = [];
+    const addWithAncestors = (task: Task) => {
+      if (ordered.includes(task) || !rest.includes(task)) return;
+      if (task.parent) {
+        addWithAncestors(task.parent);
+      }
+      ordered.push(task);
+    };
+    scheduled.forEach(addWithAncestors);
+    rest.forEach(addWithAncestors);
+
+    tasks.splice(currentIndex + 1, rest.length, ...ordered);
+  }
+
+  /**
+   * Adds pomodoro breaks to the current and upcoming tasks. Each break is
+   * recorded on the task it interrupts, which ends that much later, and
+   * tasks without a start time move back accordingly. A break that falls
+   * before a fixed-start task is taken in the gap before it.
+   */
+  private insertPomodoroBreaks(
+    tasks: Task[],
+    settings: PomodoroSettings,
+    loggedWork: number
+  ): void {
+    const currentIndex = this.findCurrentIndex(tasks);
+    if (currentIndex === -1) return;
+
+    const workLength = settings.workMinutes * 60000;
+    const state = createPomodoroState(settings, loggedWork);
+    let previousEndTime: Date | null = null;
+
+    tasks.slice(currentIndex).forEach((task, index) => {
+      if (task.children.length > 0 || task.isCompleted) return;
+      if (task.isCalendarEvent) {
+        if (
+          task.endTime &&
+          (!previousEndTime || task.endTime > previousEndTime)
+        ) {
+          previousEndTime = task.endTime;
         }
+        return;
+      }
 
-        if (estimate) {
-          acc.push({
-            originalTaskName: originalTaskName,
-            task: taskName,
-            startTime: startTime,
-            estimate: estimate,
-            endTime: endTime,
-            isCompleted: isCompleted,
-            originalStartTime: originalStartTime,
-            categories: categories,
+      if (index > 0 && task.originalStartTime) {
+        state.isOnBreak = false;
+      } else if (index > 0 && previousEndTime) {
+        task.startTime = previousEndTime;
+      }
+      if (!task.startTime || !task.estimate) return;
+
+      let time = task.startTime.getTime();
+      let remaining = Number(task.estimate) * 60000;
+      const breaks: PomodoroBreak[] = [];
+      while (remaining > 0) {
+        if (state.isOnBreak) {
+          const breakLength = getBreakLength(
+            settings,
+            state.completedIntervals
+          );
+          breaks.push({
+            start: new Date(time),
+            end: new Date(time + breakLength),
+            isLongBreak: isLongBreak(settings, state.completedIntervals),
           });
+          time += breakLength;
+          state.isOnBreak = false;
+        }
+        const work = Math.min(remaining, workLength - state.intervalWork);
+        time += work;
+        remaining -= work;
+        state.intervalWork += work;
+        if (state.intervalWork >= workLength) {
+          state.completedIntervals++;
+          state.intervalWork = 0;
+          state.isOnBreak = true;
         }
+      }
+
+      task.breaks = breaks;
+      task.endTime = new Date(time + calculatePausedTime(task.pauses));
+      previousEndTime = task.endTime;
+    });
+  }
+
+  private findCurrentIndex(tasks: Task[]): number {
+    return tasks.findIndex(
+      (task) =>
+        !task.isCompleted && !task.isCalendarEvent && task.children.length === 0
+    );
+  }
 
-        return acc;
-      }, []);
+  private createEventTask(event: CalendarEvent): Task {
+    const minutes = (event.end.getTime() - event.start.getTime()) / 60000;
+    return {
+      originalTaskName: event.summary,
+      task: event.summary,
+      startTime: event.start,
+      estimate: minutes.toString(),
+      isEstimateInferred: false,
+      plannedEstimate: null,
+      endTime: event.end,
+      isCompleted: event.end.getTime() <= Date.now(),
+      originalStartTime: true,
+      isCalendarEvent: true,
+      categories: event.categories,
+      pauses: [],
+      breaks: [],
+      deadline: null,
+      filePath: '',
+      lineNumber: -1,
+      level: 0,
+      parent: null,
+      children: [],
+    };
+  }
+
+  private isTaskLine(line: string): boolean {
+    return /^[-+*] \[[ x]\]/.test(line);
+  }
 
-    return tasks;
+  private getIndent(line: string): number {
+    const whitespace = line.match(/^\s*/)?.[0] || '';
+    return whitespace.replace(/\t/g, '    ').length;
+  }
+
+  // A task is a parent only when a task below it ends up in the schedule,
+  // i.e. has an estimate of its own or from history. Subtasks without one
+  // are skipped, so their parent is scheduled like any other task.
+  private hasScheduledSubtasks(lines: string[], lineNumber: number): boolean {
+    const indent = this.getIndent(lines[lineNumber]);
+    for (let i = lineNumber + 1; i < lines.length; i++) {
+      const line = lines[i].trim();
+      if (!line) continue;
+      if (this.isDateDelimiterLine(line) || this.showUntilRegex.test(line)) {
+        return false;
+      }
+      if (!this.isTaskLine(line)) {
+        if (this.getIndent(lines[i]) === 0) {
+          return false;
+        }
+        continue;
+      }
+      if (this.getIndent(lines[i]) <= indent) {
+        return false;
+      }
+      const { originalTaskName } = this.parseTaskName(line);
+      if (
+        this.parseEstimate(line) ||
+        this.historicalEstimates[originalTaskName] !== undefined
+      ) {
+        return true;
+      }
+    }
+    return false;
   }
 
   private isDateDelimiterLine(line: string): boolean {
     return this.dateDelimiter.test(line);
   }
 
+  /** Counts the date delimiters above a line, i.e. its day offset. */
+  public getDayOffset(content: string, lineNumber: number): number {
+    return content
+      .split('\n')
+      .slice(0, lineNumber)
+      .filter((line) => this.isDateDelimiterLine(line.trim())).length;
+  }
+
   public parseTaskName(taskName: string): {
     taskName: string;
     originalTaskName: string;
@@ -138,22 +613,31 @@ export class TaskParser {
     const taskNameRegex = /^[-+*]\s*\[\s*.\s*\]\s*/;
     const linkRegex = /\[\[([^\[\]]*\|)?([^\[\]]+)\]\]/g;
     const markdownLinkRegex = /\[([^\[\]]+)\]\(.+?\)/g;
-    const estimateRegex = new RegExp(`\\${this.separator}\\s*\\d+\\s*`);
-    const startTimeRegex = new RegExp(
-      `\\${this.startTimeDelimiter}\\s*(?:\\d{4}-\\d{2}-\\d{2}T)?(\\d{1,2}:?\\d{2})`
-    );
+    const removeEstimates = (text: string) =>
+      this.syntaxes.reduce(
+        (result, syntax) =>
+          result.replace(new RegExp(`${syntax.estimateRegex.source}\\s*`), ''),
+        text
+      );
+    const removeStartTimes = (text: string) =>
+      this.syntaxes.reduce(
+        (result, syntax) => result.replace(syntax.startTimeRegex, ''),
+        text
+      );
     const categoryRegex = /\s#([^\s!#$%&'()*+,.\/:;<=>?@[\\\]^`{|}~]+)/gu;
 
     let originalTaskName = taskName;
-    originalTaskName = originalTaskName
-      .replace(taskNameRegex, '')
-      .replace(estimateRegex, '')
-      .replace(startTimeRegex, '')
+    originalTaskName = originalTaskName.replace(taskNameRegex, '');
+    originalTaskName = removeStartTimes(removeEstimates(originalTaskName))
       .replace(categoryRegex, '')
+      .replace(DEADLINE_REGEX, '')
+      .replace(PLANNED_REGEX, '')
       .trim();
 
     taskName = taskName
       .replace(taskNameRegex, '')
+      .replace(DEADLINE_REGEX, '')
+      .replace(PLANNED_REGEX, '')
       .trim()
       .replace(linkRegex, '$2')
       .replace(markdownLinkRegex, '$1')
@@ -164,46 +648,78 @@ export class TaskParser {
     }
 
     if (this.showStartTimeInTaskName) {
-      taskName = taskName.replace(
-        startTimeRegex,
-        (match, p1) => `${this.startTimeDelimiter}${p1}`
-      );
+      this.syntaxes.forEach((syntax) => {
+        taskName = taskName.replace(
+          syntax.startTimeRegex,
+          (match, date, time) => syntax.displayStartTime(time)
+        );
+      });
     } else {
-      taskName = taskName.replace(startTimeRegex, '').trim();
+      taskName = removeStartTimes(taskName).trim();
     }
 
     if (!this.showEstimateInTaskName) {
-      taskName = taskName.replace(estimateRegex, '').trim();
+      taskName = removeEstimates(taskName).trim();
     }
 
     return { taskName, originalTaskName };
   }
 
-  public parseStartTime(task: string, nextDay: number): Date | null {
-    const timeRegex = new RegExp(
-      `\\${this.startTimeDelimiter}\\s*(\\d{1,2}:?\\d{2})`
-    );
-    const dateTimeRegex = new RegExp(
-      `\\${this.startTimeDelimiter}\\s*(\\d{4}-\\d{2}-\\d{2}T\\d{1,2}:\\d{2})`
+  /**
+   * Reads the deadline of a task. A `📅` date without a time means the end
+   * of that day, and `due:HH:MM` alone refers to the day of the task.
+   */
+  public parseDeadline(
+    task: string,
+    nextDay: number,
+    baseDate: Date = new Date()
+  ): Date | null {
+    const timeMatch = task.match(/(?:^|\s)due:(\d{1,2}):(\d{2})(?=\s|$)/);
+    const dateMatch = task.match(
+      /📅\s*(\d{4})-(\d{2})-(\d{2})(?:\s+(\d{1,2}):(\d{2}))?(?=\s|$)/u
     );
+    if (!timeMatch && !dateMatch) {
+      return null;
+    }
+
+    const deadline = new Date(baseDate);
+    if (dateMatch) {
+      const [year, month, day] = dateMatch.slice(1, 4).map(Number);
+      deadline.setFullYear(year, month - 1, day);
+    } else {
+      deadline.setDate(deadline.getDate() + nextDay);
+    }
+    if (timeMatch) {
+      deadline.setHours(Number(timeMatch[1]), Number(timeMatch[2]), 0, 0);
+    } else if (dateMatch?.[4]) {
+      deadline.setHours(Number(dateMatch[4]), Number(dateMatch[5]), 0, 0);
+    } else {
+      deadline.setHours(23, 59, 0, 0);
+    }
+    return deadline;
+  }
 
-    const timeMatch = task.match(timeRegex);
-    const dateTimeMatch = task.match(dateTimeRegex);
+  public parseStartTime(
+    task: string,
+    nextDay: number,
+    baseDate: Date = new Date()
+  ): Date | null {
+    const [, date, time] = matchStartTime(task, this.syntaxes)?.match || [];
 
-    if (dateTimeMatch) {
-      const parsedDateTime = new Date(dateTimeMatch[1]);
+    if (date) {
+      const parsedDateTime = new Date(`${date}T${time}`);
       if (!isNaN(parsedDateTime.getTime())) {
         return parsedDateTime;
       }
-    } else if (timeMatch) {
-      const currentTime = new Date();
+    } else if (time) {
+      const currentTime = new Date(baseDate);
       let hoursStr: string;
       let minutesStr: string;
-      if (timeMatch[1].includes(':')) {
-        [hoursStr, minutesStr] = timeMatch[1].split(':');
+      if (time.includes(':')) {
+        [hoursStr, minutesStr] = time.split(':');
       } else {
-        hoursStr = timeMatch[1].substring(0, 2);
-        minutesStr = timeMatch[1].substring(2);
+        hoursStr = time.substring(0, 2);
+        minutesStr = time.substring(2);
       }
       const hours = parseInt(hoursStr);
       const minutes = parseInt(minutesStr);
@@ -218,9 +734,17 @@ export class TaskParser {
   }
 
   public parseEstimate(task: string): string | null {
-    const regex = new RegExp(`\\${this.separator}\\s*(\\d+)\\s*`);
-    const match = task.match(regex);
-    return match ? match[1] : null;
+    const match = this.syntaxes
+      .map((syntax) => task.match(syntax.estimateRegex))
+      .find(Boolean);
+    const minutes = match ? parseEstimateToMinutes(match[1]) : null;
+    return minutes !== null ? minutes.toString() : null;
+  }
+
+  public parsePlannedEstimate(task: string): string | null {
+    const match = task.match(PLANNED_REGEX);
+    const minutes = match ? parseEstimateToMinutes(match[1]) : null;
+    return minutes !== null ? minutes.toString() : null;
   }
 
   private parseCategories(taskName: string): string[] {
@@ -233,38 +757,87 @@ export class TaskParser {
     return categories;
   }
 
-  public getYamlStartTime(content: string): Date | null {
-    const match = content.match(/^startTime: (\d{2}:\d{2}:\d{2})/m);
-    if (match) {
-      const [hours, minutes, seconds] = match[1].split(':').map(Number);
-      const date = new Date();
-      date.setHours(hours, minutes, seconds);
+  public getYamlStartTime(content: string, noteDate?: Date): Date | null {
+    const match = content.match(/^startTime: (\S+)/m);
+    return match ? this.parseYamlTime(match[1], noteDate) : null;
+  }
+
+  // The logged work only counts on the day in `pomodoroDate`, so the cycle
+  // starts over each day even in a note that is not a daily note.
+  public getYamlPomodoroMinutes(
+    content: string,
+    now: Date = new Date()
+  ): number {
+    const match = content.match(/^pomodoroMinutes: (\d+(?:\.\d+)?)/m);
+    const dateMatch = content.match(/^pomodoroDate: (\d{4}-\d{2}-\d{2})/m);
+    const today = [
+      now.getFullYear(),
+      (now.getMonth() + 1).toString().padStart(2, '0'),
+      now.getDate().toString().padStart(2, '0'),
+    ].join('-');
+    return match && dateMatch?.[1] === today ? parseFloat(match[1]) : 0;
+  }
+
+  public getYamlPauses(content: string, noteDate?: Date): PauseSegment[] {
+    const match = content.match(/^pauses: (.*)$/m);
+    if (!match) return [];
+    return match[1]
+      .split(',')
+      .map((segment) => segment.trim().split('/'))
+      .map(([start, end]) => ({
+        start: this.parseYamlTime(start, noteDate),
+        end: end ? this.parseYamlTime(end, noteDate) : null,
+      }))
+      .filter((pause): pause is PauseSegment => pause.start !== null);
+  }
+
+  // Times are stored as ISO date-times with an offset. Older versions
+  // stored only `HH:MM:SS`, which is placed on the note's date (or today).
+  // A time still in the future is from the night before.
+  private parseYamlTime(time: string, noteDate?: Date): Date | null {
+    if (/^\d{2}:\d{2}:\d{2}$/.test(time)) {
+      const [hours, minutes, seconds] = time.split(':').map(Number);
+      const date = noteDate ? new Date(noteDate) : new Date();
+      date.setHours(hours, minutes, seconds, 0);
+      if (date.getTime() > Date.now()) {
+        date.setDate(date.getDate() - 1);
+      }
       return date;
     }
-    return null;
+    const date = new Date(time);
+    return isNaN(date.getTime()) ? null : date;
   }
 
   public getCategoryPerformance(
     tasks: Task[]
-  ): Record<string, { estimatedTime: number; actualTime: number }> {
-    const performance: Record<
-      string,
-      { estimatedTime: number; actualTime: number }
-    > = {};
-
-    tasks.forEach((task) => {
-      task.categories.forEach((category) => {
-        const estimate = parseInt(task.estimate || '0');
-        const actualTime = task.isCompleted ? estimate : 0;
-
-        if (!performance[category]) {
-          performance[category] = { estimatedTime: 0, actualTime: 0 };
-        }
+  ): Record<string, CategoryPerformance> {
+    const performance: Record<string, CategoryPerformance> = {};
+
+    // Parent tasks are skipped because their subtasks are counted instead.
+    tasks
+      .filter((task) => task.children.length === 0 && !task.isCalendarEvent)
+      .forEach((task) => {
+        task.categories.forEach((category) => {
+          const estimate = parseFloat(task.estimate || '0');
+          const actualTime = task.isCompleted ? estimate : 0;
+
+          if (!performance[category]) {
+            performance[category] = {
+              estimatedTime: 0,
+              actualTime: 0,
+              plannedTime: 0,
+            };
+          }
 
-        performance[category].estimatedTime += task.isCompleted ? 0 : estimate;
-        performance[category].actualTime += actualTime;
+          performance[category].estimatedTime += task.isCompleted
+            ? 0
+            : estimate;
+          performance[category].actualTime += actualTime;
+          performance[category].plannedTime += task.isCompleted
+            ? getPlannedMinutes(task)
+            : 0;
+        });
       });
-    });
 
     return performance;
   }
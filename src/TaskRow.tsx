@@ -1,6 +1,8 @@
 import React from 'react';
-import { Task } from './TaskManager';
+import { Task, isDeadlineMissed, isOpenOvernight } from './TaskManager';
 import DynamicTimetable from './main';
+import { formatEstimate } from './EstimateUtils';
+import EditableCell from './EditableCell';
 
 type TaskRowProps = {
   task: Task;
@@ -11,14 +13,29 @@ type TaskRowProps = {
   allTasksCompleted: boolean;
   duration: number;
   estimate: number;
+  isCollapsed: boolean;
+  onToggleCollapse: () => void;
+  onEstimateChange: (value: string) => void;
+  onStartTimeChange: (value: string) => void;
+  dragProps: Pick<
+    React.HTMLAttributes<HTMLTableRowElement>,
+    'draggable' | 'onDragStart' | 'onDragOver' | 'onDrop' | 'onDragEnd'
+  >;
 };
 
-const formatDateToTime = (date: Date) => {
+export const formatDateToTime = (date: Date) => {
   const hours = date.getHours().toString().padStart(2, '0');
   const minutes = date.getMinutes().toString().padStart(2, '0');
   return `${hours}:${minutes}`;
 };
 
+const formatDeadline = (deadline: Date) =>
+  deadline.toDateString() === new Date().toDateString()
+    ? formatDateToTime(deadline)
+    : `${deadline.getMonth() + 1}/${deadline.getDate()} ${formatDateToTime(
+        deadline
+      )}`;
+
 const formatToHHMMSS = (seconds: number) => {
   const hours = Math.floor(seconds / 3600)
     .toString()
@@ -43,7 +60,14 @@ const TaskRow: React.FC<TaskRowProps> = ({
   allTasksCompleted,
   duration,
   estimate,
+  isCollapsed,
+  onToggleCollapse,
+  onEstimateChange,
+  onStartTimeChange,
+  dragProps,
 }) => {
+  const settings = plugin.getEffectiveSettings();
+  const hasSubtasks = task.children.length > 0;
   let bufferClass = '';
   if (
     (task.originalStartTime &&
@@ -60,6 +84,7 @@ const TaskRow: React.FC<TaskRowProps> = ({
     bufferClass = 'late';
   }
 
+  const isOvernight = !!firstUncompletedTaskRef && isOpenOvernight(task);
   const remainingTimeSeconds = Math.floor((estimate - duration) / 1000);
   const categoryClasses = createCategoryClasses(task.categories);
   const originalBackgroundColor =
@@ -69,7 +94,7 @@ const TaskRow: React.FC<TaskRowProps> = ({
       ? originalBackgroundColor.replace(/,\s*([^,]+)\)/, ', 0.05)')
       : originalBackgroundColor;
 
-  const style = plugin.settings.applyBackgroundColorByCategory
+  const style = settings.applyBackgroundColorByCategory
     ? {
         backgroundColor: backgroundColor,
       }
@@ -80,25 +105,75 @@ const TaskRow: React.FC<TaskRowProps> = ({
       ref={task.isCompleted ? null : firstUncompletedTaskRef}
       className={`dt-task-row ${bufferClass} ${
         !allTasksCompleted && task.isCompleted ? 'dt-completed' : ''
+      } ${hasSubtasks ? 'dt-parent-task' : ''} ${
+        task.isCalendarEvent ? 'dt-calendar-event' : ''
+      } ${isDeadlineMissed(task) ? 'dt-deadline-missed' : ''} ${
+        isOvernight ? 'dt-overnight' : ''
       } ${categoryClasses}`}
-      style={style}>
-      <td>{task.task}</td>
-      {plugin.settings.showEstimate &&
-        !(plugin.settings.showRemainingTime && firstUncompletedTaskRef) && (
-          <td style={{ textAlign: 'center' }}>{task.estimate}</td>
+      style={style}
+      {...dragProps}>
+      <td style={{ paddingLeft: `${task.level * 1.2}em` }}>
+        {hasSubtasks && (
+          <span className="dt-collapse-toggle" onClick={onToggleCollapse}>
+            {isCollapsed ? '▸' : '▾'}
+          </span>
+        )}
+        {task.task}
+        {task.isEstimateInferred && (
+          <span
+            className="dt-inferred-estimate"
+            title="Estimate inferred from history">
+            {' ≈'}
+          </span>
+        )}
+        {isOvernight && task.startTime && (
+          <span
+            className="dt-overnight-marker"
+            title={`Open since ${task.startTime.toLocaleString()}`}>
+            {' 🌙'}
+          </span>
+        )}
+        {task.deadline && (
+          <span className="dt-deadline" title="Deadline">
+            {` due ${formatDeadline(task.deadline)}`}
+          </span>
+        )}
+      </td>
+      {settings.showEstimate &&
+        !(settings.showRemainingTime && firstUncompletedTaskRef) && (
+          <EditableCell
+            value={
+              task.estimate
+                ? formatEstimate(
+                    parseFloat(task.estimate),
+                    settings.estimateFormat
+                  )
+                : ''
+            }
+            editable={!task.isCompleted && !task.isCalendarEvent}
+            placeholder="1h30m"
+            onSave={onEstimateChange}
+          />
         )}
-      {plugin.settings.showStartTime &&
-        !(plugin.settings.showRemainingTime && firstUncompletedTaskRef) && (
-          <td style={{ textAlign: 'center' }}>
-            {task.startTime ? formatDateToTime(task.startTime) : ''}
-          </td>
+      {settings.showStartTime &&
+        !(settings.showRemainingTime && firstUncompletedTaskRef) && (
+          <EditableCell
+            value={task.startTime ? formatDateToTime(task.startTime) : ''}
+            editable={
+              !task.isCompleted &&
+              !task.isCalendarEvent &&
+              !firstUncompletedTaskRef
+            }
+            placeholder="HH:MM"
+            onSave={onStartTimeChange}
+          />
         )}
-      {!(plugin.settings.showRemainingTime && firstUncompletedTaskRef) && (
+      {!(settings.showRemainingTime && firstUncompletedTaskRef) && (
         <td style={{ textAlign: 'center' }}>
           {task.endTime ? formatDateToTime(task.endTime) : ''}
         </td>
       )}
-      {plugin.settings.showRemainingTime && firstUncompletedTaskRef && (
+      {settings.showRemainingTime && firstUncompletedTaskRef && (
         <td colSpan={3} style={{ textAlign: 'center' }}>
           {formatToHHMMSS(Math.abs(remainingTimeSeconds))}
         </td>
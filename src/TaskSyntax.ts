@@ -0,0 +1,121 @@
+import { ESTIMATE_PATTERN } from './EstimateUtils';
+
+export type TaskSyntaxName = 'delimiter' | 'dataview' | 'tasksEmoji';
+
+export const TASK_SYNTAX_NAMES: TaskSyntaxName[] = [
+  'delimiter',
+  'dataview',
+  'tasksEmoji',
+];
+
+/**
+ * Reads and writes the estimate and start time of a task line in one
+ * format, so that values are written back the way they were read.
+ */
+export type TaskSyntax = {
+  name: TaskSyntaxName;
+  // The regexes match the token alone, without the whitespace around it.
+  /** Group 1 is the estimate. */
+  estimateRegex: RegExp;
+  /** Group 1 is an optional `YYYY-MM-DD` date, group 2 the time. */
+  startTimeRegex: RegExp;
+  formatEstimate: (estimate: string) => string;
+  formatStartTime: (time: string, date?: string) => string;
+  /** How the start time reads when it is kept in the task name. */
+  displayStartTime: (time: string) => string;
+};
+
+const escapeRegExp = (string: string) =>
+  string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const DATE = '(\\d{4}-\\d{2}-\\d{2})';
+
+// `; 30 @ 10:00`, with the delimiters from the settings.
+const createDelimiterSyntax = (
+  estimateDelimiter: string,
+  startTimeDelimiter: string
+): TaskSyntax => ({
+  name: 'delimiter',
+  estimateRegex: new RegExp(
+    `${escapeRegExp(estimateDelimiter)}\\s*(${ESTIMATE_PATTERN})`
+  ),
+  startTimeRegex: new RegExp(
+    `${escapeRegExp(startTimeDelimiter)}\\s*(?:${DATE}T)?(\\d{1,2}:?\\d{2})`
+  ),
+  formatEstimate: (estimate) => `${estimateDelimiter} ${estimate}`,
+  formatStartTime: (time, date) =>
+    `${startTimeDelimiter} ${date ? `${date}T` : ''}${time}`,
+  displayStartTime: (time) => `${startTimeDelimiter}${time}`,
+});
+
+// Dataview inline fields: `[estimate:: 30]` and `[start:: 10:00]`, also in
+// parentheses.
+const dataviewSyntax: TaskSyntax = {
+  name: 'dataview',
+  estimateRegex: new RegExp(
+    `[[(]estimate::\\s*(${ESTIMATE_PATTERN})\\s*[\\])]`
+  ),
+  startTimeRegex: new RegExp(
+    `[[(]start::\\s*(?:${DATE}[T ])?(\\d{1,2}:?\\d{2})\\s*[\\])]`
+  ),
+  formatEstimate: (estimate) => `[estimate:: ${estimate}]`,
+  formatStartTime: (time, date) => `[start:: ${date ? `${date}T` : ''}${time}]`,
+  displayStartTime: (time) => `[start:: ${time}]`,
+};
+
+// Tasks-plugin style emoji: `⏳ 30m` and `⏰ 10:00`. Dates after `⏳`, as
+// the Tasks plugin writes them, are not mistaken for estimates.
+const tasksEmojiSyntax: TaskSyntax = {
+  name: 'tasksEmoji',
+  estimateRegex: new RegExp(`⏳\\uFE0F?\\s*(${ESTIMATE_PATTERN})(?![\\d-])`),
+  startTimeRegex: new RegExp(`⏰\\uFE0F?\\s*(?:${DATE}[T ])?(\\d{1,2}:\\d{2})`),
+  formatEstimate: (estimate) => `⏳ ${estimate}`,
+  formatStartTime: (time, date) => `⏰ ${date ? `${date} ` : ''}${time}`,
+  displayStartTime: (time) => `⏰ ${time}`,
+};
+
+/**
+ * Returns the active syntaxes in a fixed order. The first one is used for
+ * values a line does not have yet.
+ */
+export const getTaskSyntaxes = (
+  names: TaskSyntaxName[],
+  estimateDelimiter: string,
+  startTimeDelimiter: string
+): TaskSyntax[] => {
+  const syntaxes: Record<TaskSyntaxName, TaskSyntax> = {
+    delimiter: createDelimiterSyntax(estimateDelimiter, startTimeDelimiter),
+    dataview: dataviewSyntax,
+    tasksEmoji: tasksEmojiSyntax,
+  };
+  const active = TASK_SYNTAX_NAMES.filter((name) => names.includes(name));
+  return (active.length > 0 ? active : TASK_SYNTAX_NAMES.slice(0, 1)).map(
+    (name) => syntaxes[name]
+  );
+};
+
+// Takes in the whitespace before a token, for replacing or removing it.
+export const withLeadingSpace = (regex: RegExp): RegExp =>
+  new RegExp(`\\s*${regex.source}`, regex.flags);
+
+/** Finds the syntax a line already uses for its estimate or start time. */
+export const findLineSyntax = (
+  line: string,
+  syntaxes: TaskSyntax[]
+): TaskSyntax =>
+  syntaxes.find((syntax) => syntax.estimateRegex.test(line)) ||
+  syntaxes.find((syntax) => syntax.startTimeRegex.test(line)) ||
+  syntaxes[0];
+
+export const matchStartTime = (
+  line: string,
+  syntaxes: TaskSyntax[]
+): { syntax: TaskSyntax; match: RegExpMatchArray } | null => {
+  for (const syntax of syntaxes) {
+    const match = line.match(syntax.startTimeRegex);
+    if (match) {
+      return { syntax, match };
+    }
+  }
+  return null;
+};
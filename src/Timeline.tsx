@@ -0,0 +1,199 @@
+import React from 'react';
+import DynamicTimetable from './main';
+import { Task, isDeadlineMissed, isOpenOvernight } from './TaskManager';
+import { splitByBreaks } from './Pomodoro';
+import { formatDateToTime } from './TaskRow';
+
+const PIXELS_PER_MINUTE = 1.5;
+const MIN_BLOCK_HEIGHT = 18;
+const HOUR = 60 * 60 * 1000;
+
+const startOfHour = (time: number): number => {
+  const date = new Date(time);
+  date.setMinutes(0, 0, 0);
+  return date.getTime();
+};
+
+type TimelineProps = {
+  plugin: DynamicTimetable;
+  tasks: Task[];
+  currentTask: Task | undefined;
+  currentTaskRef: React.RefObject<HTMLDivElement>;
+  categoryBackgroundColors: Record<string, string>;
+};
+
+type TimelineBlock = {
+  key: string;
+  task: Task;
+  label: string;
+  start: Date;
+  end: Date;
+  isBreak: boolean;
+  lane: number;
+  laneCount: number;
+  isOverlapping: boolean;
+};
+
+// Pomodoro breaks split a task into a block per work interval, with the
+// breaks in between.
+const createBlocks = (tasks: Task[]): TimelineBlock[] =>
+  tasks.flatMap((task, index) => {
+    if (!task.startTime || !task.endTime || task.children.length > 0) {
+      return [];
+    }
+    const block = {
+      task,
+      lane: 0,
+      laneCount: 1,
+      isOverlapping: false,
+    };
+    if (task.breaks.length === 0) {
+      return [
+        {
+          ...block,
+          key: `task-${index}`,
+          label: task.task,
+          start: task.startTime,
+          end: task.endTime,
+          isBreak: false,
+        },
+      ];
+    }
+    return splitByBreaks(task.startTime, task.endTime, task.breaks).map(
+      (interval, i) => ({
+        ...block,
+        key: `task-${index}-${i}`,
+        label: interval.isBreak
+          ? interval.isLongBreak
+            ? 'Long Break'
+            : 'Short Break'
+          : task.task,
+        start: interval.start,
+        end: interval.end,
+        isBreak: interval.isBreak,
+      })
+    );
+  });
+
+// Blocks that overlap share the width side by side, each in its own lane.
+const assignLanes = (blocks: TimelineBlock[]) => {
+  const sorted = [...blocks].sort(
+    (a, b) => a.start.getTime() - b.start.getTime()
+  );
+  let group: TimelineBlock[] = [];
+  let laneEnds: number[] = [];
+  const closeGroup = () => {
+    group.forEach((block) => {
+      block.laneCount = laneEnds.length;
+      block.isOverlapping = laneEnds.length > 1 && !block.isBreak;
+    });
+    group = [];
+    laneEnds = [];
+  };
+
+  sorted.forEach((block) => {
+    const start = block.start.getTime();
+    if (group.length > 0 && laneEnds.every((end) => end <= start)) {
+      closeGroup();
+    }
+    const lane = laneEnds.findIndex((end) => end <= start);
+    block.lane = lane === -1 ? laneEnds.length : lane;
+    laneEnds[block.lane] = block.end.getTime();
+    group.push(block);
+  });
+  closeGroup();
+};
+
+const Timeline = ({
+  plugin,
+  tasks,
+  currentTask,
+  currentTaskRef,
+  categoryBackgroundColors,
+}: TimelineProps) => {
+  const blocks = createBlocks(tasks);
+  if (blocks.length === 0) {
+    return null;
+  }
+  assignLanes(blocks);
+
+  const now = new Date();
+  const firstStart = Math.min(...blocks.map((b) => b.start.getTime()));
+  const lastEnd = Math.max(...blocks.map((b) => b.end.getTime()));
+  const rangeStart = startOfHour(Math.min(firstStart, now.getTime()));
+  const rangeEnd = startOfHour(Math.max(lastEnd, now.getTime()) - 1) + HOUR;
+  const toOffset = (time: number) =>
+    ((time - rangeStart) / 60000) * PIXELS_PER_MINUTE;
+
+  const hours = [];
+  for (let hour = rangeStart; hour <= rangeEnd; hour += HOUR) {
+    hours.push(hour);
+  }
+
+  return (
+    <div
+      className="dt-timeline"
+      style={{ height: toOffset(rangeEnd) + MIN_BLOCK_HEIGHT }}>
+      {hours.map((hour) => (
+        <div
+          key={hour}
+          className="dt-timeline-hour"
+          style={{ top: toOffset(hour) }}>
+          <span className="dt-timeline-hour-label">
+            {formatDateToTime(new Date(hour))}
+          </span>
+        </div>
+      ))}
+      {blocks.map((block) => {
+        const { task } = block;
+        const backgroundColor = categoryBackgroundColors[task.categories[0]];
+        const isCurrent = task === currentTask && !block.isBreak;
+        const top = toOffset(block.start.getTime());
+        const height = Math.max(
+          toOffset(block.end.getTime()) - top,
+          MIN_BLOCK_HEIGHT
+        );
+        return (
+          <div
+            key={block.key}
+            ref={isCurrent ? currentTaskRef : null}
+            className={`dt-timeline-block ${
+              block.isBreak ? 'dt-timeline-break' : ''
+            } ${task.isCompleted ? 'dt-completed' : ''} ${
+              task.isCalendarEvent ? 'dt-calendar-event' : ''
+            } ${isCurrent ? 'dt-timeline-current' : ''} ${
+              task.originalStartTime ? 'dt-timeline-fixed' : ''
+            } ${block.isOverlapping ? 'dt-timeline-overlap' : ''} ${
+              isDeadlineMissed(task) ? 'dt-deadline-missed' : ''
+            } ${isCurrent && isOpenOvernight(task) ? 'dt-overnight' : ''}`}
+            style={{
+              top,
+              height,
+              left: `calc(3.5em + (100% - 3.5em) * ${
+                block.lane / block.laneCount
+              })`,
+              width: `calc((100% - 3.5em) / ${block.laneCount})`,
+              backgroundColor:
+                plugin.settings.applyBackgroundColorByCategory && !block.isBreak
+                  ? backgroundColor
+                  : undefined,
+            }}
+            title={`${block.label} ${formatDateToTime(
+              block.start
+            )}-${formatDateToTime(block.end)}`}>
+            <span className="dt-timeline-time">
+              {formatDateToTime(block.start)}
+            </span>{' '}
+            {block.label}
+          </div>
+        );
+      })}
+      <div
+        className="dt-timeline-now"
+        style={{ top: toOffset(now.getTime()) }}
+      />
+    </div>
+  );
+};
+
+export default Timeline;
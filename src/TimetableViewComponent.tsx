@@ -6,13 +6,24 @@ import React, {
   useImperativeHandle,
 } from 'react';
 import DynamicTimetable from './main';
-import { Task, taskFunctions } from './TaskManager';
+import {
+  DropPosition,
+  LineOrigin,
+  Task,
+  findCurrentTask,
+  isDeadlineMissed,
+  isOpenOvernight,
+  taskFunctions,
+} from './TaskManager';
 import { ButtonContainer } from './Button';
 import ProgressBar from './ProgressBar';
 import { CommandsManager } from './Commands';
 import BufferTimeRow from './BufferTimeRow';
 import TaskRow from './TaskRow';
+import Timeline from './Timeline';
 import { Notice } from 'obsidian';
+import { TaskSource, calculatePausedTime } from './TaskParser';
+import { splitByBreaks } from './Pomodoro';
 import {
   convertHexToHSLA,
   getHSLAColorForCategory,
@@ -24,6 +35,15 @@ export type TimetableViewComponentRef = {
   scrollToFirstUncompletedTask: () => void;
 };
 
+type DragState = {
+  task: LineOrigin;
+  sources: TaskSource[] | null;
+  origins: Record<string, LineOrigin[]> | null;
+  target: LineOrigin | null;
+  position: DropPosition;
+  dropped: boolean;
+};
+
 const TimetableViewComponent = forwardRef<
   TimetableViewComponentRef,
   {
@@ -33,13 +53,24 @@ const TimetableViewComponent = forwardRef<
 >(({ plugin, commandsManager }, ref) => {
   const containerRef = useRef<HTMLDivElement | null>(null);
   const firstUncompletedTaskRef = useRef<HTMLTableRowElement | null>(null);
+  const currentTimelineBlockRef = useRef<HTMLDivElement | null>(null);
   const noticeRef = useRef<Notice | null>(null);
+  const deadlineNoticeRef = useRef<Notice | null>(null);
+  const overnightNoticeRef = useRef<Notice | null>(null);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [progressDuration, setProgressDuration] = useState(0);
   const [progressEstimate, setProgressEstimate] = useState(0);
+  const [isBreakTime, setIsBreakTime] = useState(false);
   const taskManager = taskFunctions(plugin);
-  const firstUncompletedTask = tasks.find((task) => !task.isCompleted);
-  const allTasksCompleted = tasks.every((task) => task.isCompleted);
+  const settings = plugin.getEffectiveSettings();
+  const [collapsedTasks, setCollapsedTasks] = useState<Set<string>>(new Set());
+  const firstUncompletedTask = findCurrentTask(tasks);
+  const allTasksCompleted = tasks.every(
+    (task) => task.isCompleted || task.isCalendarEvent
+  );
+  const isPaused = Boolean(
+    firstUncompletedTask?.pauses.some((pause) => pause.end === null)
+  );
 
   const calculateBufferTime = (
     currentTaskEndTime: Date | null,
@@ -55,6 +86,127 @@ const TimetableViewComponent = forwardRef<
     return null;
   };
 
+  // Buffer time is measured from the previous task that takes up time, so
+  // parent rows are skipped.
+  const getPreviousTask = (allTasks: Task[], index: number) => {
+    for (let i = index - 1; i >= 0; i--) {
+      if (allTasks[i].children.length === 0) return allTasks[i];
+    }
+    return undefined;
+  };
+
+  const getTaskKey = (task: Task) => `${task.filePath}:${task.lineNumber}`;
+
+  const isHidden = (task: Task): boolean => {
+    for (let parent = task.parent; parent; parent = parent.parent) {
+      if (collapsedTasks.has(getTaskKey(parent))) return true;
+    }
+    return false;
+  };
+
+  // Dragging previews the new order by re-parsing the moved lines, so start
+  // and end times follow the pointer before anything is written.
+  const dragStateRef = useRef<DragState | null>(null);
+
+  const getOrigin = (task: Task): LineOrigin => {
+    const origins = dragStateRef.current?.origins;
+    return (
+      origins?.[task.filePath]?.[task.lineNumber] || {
+        filePath: task.filePath,
+        lineNumber: task.lineNumber,
+      }
+    );
+  };
+
+  const handleDragStart = (
+    task: Task,
+    event: React.DragEvent<HTMLTableRowElement>
+  ) => {
+    event.dataTransfer.effectAllowed = 'move';
+    event.dataTransfer.setData('text/plain', task.task);
+    const dragState: DragState = {
+      task: { filePath: task.filePath, lineNumber: task.lineNumber },
+      sources: null,
+      origins: null,
+      target: null,
+      position: 'before',
+      dropped: false,
+    };
+    dragStateRef.current = dragState;
+    taskManager.readSources().then((sources) => {
+      dragState.sources = sources;
+    });
+  };
+
+  const handleDragOver = (
+    task: Task,
+    event: React.DragEvent<HTMLTableRowElement>
+  ) => {
+    const dragState = dragStateRef.current;
+    if (!dragState || task.isCalendarEvent) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    const position: DropPosition =
+      event.clientY < rect.top + rect.height / 2 ? 'before' : 'after';
+    const target = getOrigin(task);
+    if (
+      !dragState.sources ||
+      (target.filePath === dragState.task.filePath &&
+        target.lineNumber === dragState.task.lineNumber) ||
+      (target.filePath === dragState.target?.filePath &&
+        target.lineNumber === dragState.target?.lineNumber &&
+        position === dragState.position)
+    ) {
+      return;
+    }
+
+    const moved = taskManager.moveTaskBlock(
+      dragState.sources,
+      dragState.task,
+      target,
+      position
+    );
+    dragState.target = target;
+    dragState.position = position;
+    dragState.origins = moved.origins;
+    setTasks(taskManager.buildTasks(moved.sources));
+  };
+
+  const handleDrop = async (event: React.DragEvent<HTMLTableRowElement>) => {
+    const dragState = dragStateRef.current;
+    if (!dragState) return;
+    event.preventDefault();
+    dragState.dropped = true;
+    if (dragState.target) {
+      await taskManager.moveTask(
+        dragState.task,
+        dragState.target,
+        dragState.position
+      );
+    }
+  };
+
+  const handleDragEnd = async () => {
+    const dragState = dragStateRef.current;
+    dragStateRef.current = null;
+    if (dragState && !dragState.dropped) {
+      await update();
+    }
+  };
+
+  const toggleCollapse = (task: Task) => {
+    const newCollapsedTasks = new Set(collapsedTasks);
+    const key = getTaskKey(task);
+    if (newCollapsedTasks.has(key)) {
+      newCollapsedTasks.delete(key);
+    } else {
+      newCollapsedTasks.add(key);
+    }
+    setCollapsedTasks(newCollapsedTasks);
+  };
+
   const [categoryBackgroundColors, setCategoryBackgroundColors] = useState<
     Record<string, string>
   >({});
@@ -64,14 +216,16 @@ const TimetableViewComponent = forwardRef<
     setTasks(newTasks);
   };
 
-  const filteredTasks = plugin.settings.showCompletedTasks
+  const filteredTasks = settings.showCompletedTasks
     ? tasks
     : tasks.filter((task) => !task.isCompleted);
 
   const performScroll = () => {
-    if (firstUncompletedTaskRef.current && containerRef.current) {
+    const currentTaskElement =
+      firstUncompletedTaskRef.current || currentTimelineBlockRef.current;
+    if (currentTaskElement && containerRef.current) {
       const containerHeight = containerRef.current.offsetHeight;
-      const taskOffsetTop = firstUncompletedTaskRef.current.offsetTop;
+      const taskOffsetTop = currentTaskElement.offsetTop;
       const scrollToPosition = taskOffsetTop - containerHeight / 5;
 
       containerRef.current.scrollTo({
@@ -128,11 +282,11 @@ const TimetableViewComponent = forwardRef<
   useEffect(() => {
     const hasNegativeBufferTime = filteredTasks.some(
       (task, index, allTasks) => {
-        const previousTask = allTasks[index - 1];
+        const previousTask = getPreviousTask(allTasks, index);
         const bufferTime = calculateBufferTime(
           previousTask?.endTime || new Date(),
           task.startTime,
-          index
+          previousTask ? index : 0
         );
         return (
           task.originalStartTime &&
@@ -158,9 +312,54 @@ const TimetableViewComponent = forwardRef<
     }
   }, [tasks, filteredTasks]);
 
+  useEffect(() => {
+    if (tasks.some(isDeadlineMissed)) {
+      if (!deadlineNoticeRef.current) {
+        deadlineNoticeRef.current = new Notice(
+          'Warning: One or more tasks are likely to miss their deadline.',
+          0
+        );
+      }
+    } else {
+      if (deadlineNoticeRef.current) {
+        deadlineNoticeRef.current.hide();
+        deadlineNoticeRef.current = null;
+      }
+    }
+  }, [tasks]);
+
+  useEffect(() => {
+    if (firstUncompletedTask && isOpenOvernight(firstUncompletedTask)) {
+      if (!overnightNoticeRef.current) {
+        overnightNoticeRef.current = new Notice(
+          `Warning: "${
+            firstUncompletedTask.task
+          }" has been in progress since ${firstUncompletedTask.startTime?.toLocaleString()}, so its elapsed time spans the night.`,
+          0
+        );
+      }
+    } else {
+      if (overnightNoticeRef.current) {
+        overnightNoticeRef.current.hide();
+        overnightNoticeRef.current = null;
+      }
+    }
+  }, [tasks]);
+
+  // These warnings stay until they are resolved, so they go with the view.
+  useEffect(
+    () => () => {
+      deadlineNoticeRef.current?.hide();
+      deadlineNoticeRef.current = null;
+      overnightNoticeRef.current?.hide();
+      overnightNoticeRef.current = null;
+    },
+    []
+  );
+
   useEffect(() => {
     const onFileModify = async (file: any) => {
-      if (file === plugin.targetFile) {
+      if (plugin.isSourceFile(file)) {
         await update();
       }
     };
@@ -173,20 +372,49 @@ const TimetableViewComponent = forwardRef<
 
   useEffect(() => {
     const intervalId = setInterval(() => {
-      const topUncompletedTask = tasks.find((task) => !task.isCompleted);
+      const topUncompletedTask = findCurrentTask(tasks);
       if (
         topUncompletedTask &&
         topUncompletedTask.startTime &&
         topUncompletedTask.estimate
       ) {
-        let duration =
-          new Date().getTime() - topUncompletedTask.startTime.getTime();
-        const estimate = parseInt(topUncompletedTask.estimate) * 60 * 1000;
-        if (duration < 0) {
-          duration += 24 * 60 * 60;
+        // Paused time is excluded, so the progress freezes while paused.
+        let duration = Math.max(
+          0,
+          new Date().getTime() -
+            topUncompletedTask.startTime.getTime() -
+            calculatePausedTime(topUncompletedTask.pauses)
+        );
+        let estimate = parseFloat(topUncompletedTask.estimate) * 60 * 1000;
+
+        // With pomodoro breaks, the bar follows the current interval.
+        let isBreak = false;
+        if (topUncompletedTask.breaks.length > 0) {
+          const startTime = topUncompletedTask.startTime.getTime();
+          const intervals = splitByBreaks(
+            topUncompletedTask.startTime,
+            new Date(
+              startTime +
+                estimate +
+                topUncompletedTask.breaks.reduce(
+                  (total, { start, end }) =>
+                    total + end.getTime() - start.getTime(),
+                  0
+                )
+            ),
+            topUncompletedTask.breaks
+          );
+          const position = startTime + duration;
+          const interval =
+            intervals.find(({ end }) => position < end.getTime()) ||
+            intervals[intervals.length - 1];
+          duration = position - interval.start.getTime();
+          estimate = interval.end.getTime() - interval.start.getTime();
+          isBreak = interval.isBreak;
         }
         setProgressDuration(duration);
         setProgressEstimate(estimate);
+        setIsBreakTime(isBreak);
       }
     }, plugin.settings.intervalTime * 1000);
 
@@ -215,72 +443,149 @@ const TimetableViewComponent = forwardRef<
       ref={containerRef}
       className="Timetable dt-content"
       style={{ overflow: 'auto', maxHeight: '100%' }}>
-      {plugin.settings.showProgressBar && (
+      {settings.showProgressBar && (
         <ProgressBar
           duration={progressDuration}
           estimate={progressEstimate}
           enableOverdueNotice={plugin.settings.enableOverdueNotice}
+          isPaused={isPaused}
+          isBreak={isBreakTime}
         />
       )}
       <ButtonContainer commandsManager={commandsManager} />
-      <table className="dt-table">
-        <thead>
-          <tr>
-            <th>{plugin.settings.headerNames[0]}</th>
-            {plugin.settings.showEstimate && (
-              <th>{plugin.settings.headerNames[1]}</th>
-            )}
-            {plugin.settings.showStartTime && (
-              <th>{plugin.settings.headerNames[2]}</th>
-            )}
-            <th>{plugin.settings.headerNames[3]}</th>
-          </tr>
-        </thead>
-        <tbody>
-          {filteredTasks.flatMap((task, index, allTasks) => {
-            const previousTask = allTasks[index - 1];
-            const bufferTime = calculateBufferTime(
-              previousTask?.endTime || new Date(),
-              task.startTime,
-              index
-            );
-
-            const rows = [];
-
-            if (
-              bufferTime &&
-              plugin.settings.showBufferTime &&
-              task !== firstUncompletedTask &&
-              !task.isCompleted
-            ) {
-              rows.push(
-                <BufferTimeRow
-                  key={`buffer-${index}`}
+      {settings.viewMode === 'timeline' ? (
+        <Timeline
+          plugin={plugin}
+          tasks={filteredTasks}
+          currentTask={firstUncompletedTask}
+          currentTaskRef={currentTimelineBlockRef}
+          categoryBackgroundColors={categoryBackgroundColors}
+        />
+      ) : (
+        <table className="dt-table">
+          <thead>
+            <tr>
+              <th>{settings.headerNames[0]}</th>
+              {settings.showEstimate && <th>{settings.headerNames[1]}</th>}
+              {settings.showStartTime && <th>{settings.headerNames[2]}</th>}
+              <th>{settings.headerNames[3]}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {filteredTasks.flatMap((task, index, allTasks) => {
+              if (isHidden(task)) return [];
+              const previousTask = getPreviousTask(allTasks, index);
+              const bufferTime = calculateBufferTime(
+                previousTask?.endTime || new Date(),
+                task.startTime,
+                previousTask ? index : 0
+              );
+
+              const rows = [];
+
+              if (
+                bufferTime &&
+                settings.showBufferTime &&
+                task.children.length === 0 &&
+                task !== firstUncompletedTask &&
+                !task.isCompleted
+              ) {
+                rows.push(
+                  <BufferTimeRow
+                    key={`buffer-${index}`}
+                    bufferTime={bufferTime}
+                  />
+                );
+              }
+
+              const renderTaskRow = (
+                displayedTask: Task,
+                key: string,
+                isFirstPart: boolean
+              ) => (
+                <TaskRow
+                  key={key}
+                  task={displayedTask}
+                  plugin={plugin}
                   bufferTime={bufferTime}
+                  categoryBackgroundColors={categoryBackgroundColors}
+                  firstUncompletedTaskRef={
+                    task === firstUncompletedTask && isFirstPart
+                      ? firstUncompletedTaskRef
+                      : null
+                  }
+                  allTasksCompleted={allTasksCompleted}
+                  duration={progressDuration}
+                  estimate={progressEstimate}
+                  isCollapsed={collapsedTasks.has(getTaskKey(task))}
+                  onToggleCollapse={() => toggleCollapse(task)}
+                  onEstimateChange={(value) =>
+                    taskManager.updateTaskEstimate(task, value)
+                  }
+                  onStartTimeChange={(value) =>
+                    taskManager.updateTaskStartTime(task, value)
+                  }
+                  dragProps={{
+                    draggable: !task.isCalendarEvent,
+                    onDragStart: (event) => handleDragStart(task, event),
+                    onDragOver: (event) => handleDragOver(task, event),
+                    onDrop: handleDrop,
+                    onDragEnd: handleDragEnd,
+                  }}
                 />
               );
-            }
-
-            rows.push(
-              <TaskRow
-                key={`task-${index}`}
-                task={task}
-                plugin={plugin}
-                bufferTime={bufferTime}
-                categoryBackgroundColors={categoryBackgroundColors}
-                firstUncompletedTaskRef={
-                  task === firstUncompletedTask ? firstUncompletedTaskRef : null
-                }
-                allTasksCompleted={allTasksCompleted}
-                duration={progressDuration}
-                estimate={progressEstimate}
-              />
-            );
-
-            return rows;
-          })}
-        </tbody>
-      </table>
+
+              // Pomodoro breaks split a task into one row per work interval.
+              if (task.breaks.length > 0 && task.startTime && task.endTime) {
+                const intervals = splitByBreaks(
+                  task.startTime,
+                  task.endTime,
+                  task.breaks
+                );
+                const partCount = intervals.filter((i) => !i.isBreak).length;
+                let part = 0;
+                intervals.forEach((interval, i) => {
+                  if (interval.isBreak) {
+                    rows.push(
+                      <BufferTimeRow
+                        key={`break-${index}-${i}`}
+                        bufferTime={Math.round(
+                          (interval.end.getTime() - interval.start.getTime()) /
+                            60000
+                        )}
+                        label={
+                          interval.isLongBreak ? 'Long Break' : 'Short Break'
+                        }
+                      />
+                    );
+                    return;
+                  }
+                  part++;
+                  rows.push(
+                    renderTaskRow(
+                      {
+                        ...task,
+                        task:
+                          partCount > 1
+                            ? `${task.task} (${part}/${partCount})`
+                            : task.task,
+                        startTime: interval.start,
+                        endTime: interval.end,
+                      },
+                      `task-${index}-${i}`,
+                      part === 1
+                    )
+                  );
+                });
+              } else {
+                rows.push(renderTaskRow(task, `task-${index}`, true));
+              }
+
+              return rows;
+            })}
+          </tbody>
+        </table>
+      )}
     </div>
   );
 });
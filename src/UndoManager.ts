@@ -0,0 +1,159 @@
+import { Notice, TFile } from 'obsidian';
+import DynamicTimetable from './main';
+
+/** The lines an action replaced in a file, starting at line `start`. */
+export type FileChange = {
+  filePath: string;
+  start: number;
+  before: string[];
+  after: string[];
+};
+
+export type UndoEntry = {
+  label: string;
+  changes: FileChange[];
+};
+
+const MAX_UNDO_STEPS = 20;
+
+const undoStack: UndoEntry[] = [];
+let currentEntry: UndoEntry | null = null;
+
+// Trims the lines both versions share, leaving the changed hunk.
+const diffLines = (
+  filePath: string,
+  before: string,
+  after: string
+): FileChange | null => {
+  const beforeLines = before.split('\n');
+  const afterLines = after.split('\n');
+  let start = 0;
+  while (
+    start < beforeLines.length &&
+    start < afterLines.length &&
+    beforeLines[start] === afterLines[start]
+  ) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < beforeLines.length - start &&
+    end < afterLines.length - start &&
+    beforeLines[beforeLines.length - 1 - end] ===
+      afterLines[afterLines.length - 1 - end]
+  ) {
+    end++;
+  }
+  if (start === beforeLines.length && start === afterLines.length) {
+    return null;
+  }
+  return {
+    filePath,
+    start,
+    before: beforeLines.slice(start, beforeLines.length - end),
+    after: afterLines.slice(start, afterLines.length - end),
+  };
+};
+
+// Puts the old lines back where the new ones are now. The hunk is looked
+// for at its original position first, since lines may have moved since.
+const revertChange = (content: string, change: FileChange): string | null => {
+  const lines = content.split('\n');
+  const matchesAt = (index: number) =>
+    index + change.after.length <= lines.length &&
+    change.after.every((line, offset) => lines[index + offset] === line);
+
+  let index = -1;
+  if (change.after.length === 0) {
+    index = Math.min(change.start, lines.length);
+  } else if (matchesAt(change.start)) {
+    index = change.start;
+  } else {
+    index = lines.findIndex((_, i) => matchesAt(i));
+  }
+  if (index === -1) {
+    return null;
+  }
+  lines.splice(index, change.after.length, ...change.before);
+  return lines.join('\n');
+};
+
+export const undoFunctions = (plugin: DynamicTimetable) => {
+  /**
+   * Runs an action and records every file it changes through `modifyFile`
+   * as one undoable step.
+   */
+  const track = async <T>(
+    label: string,
+    action: () => Promise<T>
+  ): Promise<T> => {
+    const entry: UndoEntry = { label, changes: [] };
+    currentEntry = entry;
+    try {
+      return await action();
+    } finally {
+      currentEntry = null;
+      if (entry.changes.length > 0) {
+        undoStack.push(entry);
+        if (undoStack.length > MAX_UNDO_STEPS) {
+          undoStack.shift();
+        }
+      }
+    }
+  };
+
+  const modifyFile = async (file: TFile, content: string) => {
+    if (currentEntry) {
+      const before = await plugin.app.vault.cachedRead(file);
+      const change = diffLines(file.path, before, content);
+      if (change) {
+        currentEntry.changes.push(change);
+      }
+    }
+    await plugin.app.vault.modify(file, content);
+  };
+
+  const undo = async () => {
+    const entry = undoStack.pop();
+    if (!entry) {
+      new Notice('Nothing to undo.');
+      return;
+    }
+
+    // Every change is reverted in memory first, so that nothing is written
+    // unless the whole step can be undone.
+    const contents = new Map<string, string>();
+    for (const change of [...entry.changes].reverse()) {
+      const file = plugin.app.vault.getAbstractFileByPath(change.filePath);
+      if (!(file instanceof TFile)) {
+        new Notice(`Cannot undo: ${change.filePath} no longer exists.`);
+        undoStack.push(entry);
+        return;
+      }
+      const content =
+        contents.get(change.filePath) ??
+        (await plugin.app.vault.cachedRead(file));
+      const reverted = revertChange(content, change);
+      if (reverted === null) {
+        new Notice(`Cannot undo: ${change.filePath} has changed since.`);
+        undoStack.push(entry);
+        return;
+      }
+      contents.set(change.filePath, reverted);
+    }
+
+    for (const [filePath, content] of contents) {
+      const file = plugin.app.vault.getAbstractFileByPath(filePath);
+      if (file instanceof TFile) {
+        await plugin.app.vault.modify(file, content);
+      }
+    }
+    new Notice(`Undid ${entry.label}.`);
+  };
+
+  return {
+    track,
+    modifyFile,
+    undo,
+  };
+};
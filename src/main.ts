@@ -1,4 +1,12 @@
-import { Plugin, WorkspaceLeaf, TFile, Notice } from 'obsidian';
+import {
+  Plugin,
+  WorkspaceLeaf,
+  TAbstractFile,
+  TFile,
+  Notice,
+  getAllTags,
+  normalizePath,
+} from 'obsidian';
 import { TimetableView } from './TimetableView';
 import { DynamicTimetableSettingTab } from './Settings';
 import { taskFunctions } from './TaskManager';
@@ -7,6 +15,16 @@ import { CommandsManager } from './Commands';
 import { TimetableViewComponentRef } from './TimetableViewComponent';
 import React from 'react';
 import { StatisticsView } from './StatisticsView';
+import { dailyNoteFunctions } from './DailyNoteManager';
+import { EstimateFormat } from './EstimateUtils';
+import { ICalendarExportMode, TimeLogFormat } from './ExportManager';
+import { CalendarEvent } from './ICalendar';
+import { DynamicTimetableApi } from './Api';
+import { TaskSyntaxName } from './TaskSyntax';
+import { getNoteOverrides } from './NoteSettings';
+import { hookFunctions } from './HookManager';
+import { TimetableStatusBar } from './StatusBar';
+import { reminderFunctions } from './ReminderManager';
 
 export interface DynamicTimetableSettings {
   filePath: string | null;
@@ -16,21 +34,54 @@ export interface DynamicTimetableSettings {
   showStartTimeInTaskName: boolean;
   showBufferTime: boolean;
   showProgressBar: boolean;
+  showStatusBar: boolean;
+  viewMode: ViewMode;
   intervalTime: number;
   taskEstimateDelimiter: string;
   startTimeDelimiter: string;
+  taskSyntaxes: TaskSyntaxName[];
   headerNames: string[];
   dateDelimiter: string;
   enableOverdueNotice: boolean;
+  startReminderMinutes: number;
+  endReminderMinutes: number;
+  desktopNotifications: boolean;
+  firedReminders: string[];
   showCompletedTasks: boolean;
   applyBackgroundColorByCategory: boolean;
   showCategoryNamesInTask: boolean;
   categoryColors: { category: string; color: string }[];
   categoryTransparency: number;
   pathToDictionary: string;
+  calendarFile: string;
+  routineFile: string;
+  autoSchedule: boolean;
+  pomodoroMode: boolean;
+  pomodoroWorkMinutes: number;
+  pomodoroShortBreakMinutes: number;
+  pomodoroLongBreakMinutes: number;
+  pomodoroLongBreakInterval: number;
   showRemainingTime: boolean;
-  customUrlScheme: string;
+  taskStartHook: string;
+  taskCompleteHook: string;
+  taskInterruptHook: string;
+  overdueHook: string;
+  dayFinishedHook: string;
   showUntilRegex: string;
+  taskSource: TaskSourceType;
+  sourceFolder: string;
+  sourceFiles: string[];
+  sourceTag: string;
+  dailyNoteFolder: string;
+  dailyNoteFormat: string;
+  autoCarryOver: boolean;
+  carryOverAfterDateDelimiter: boolean;
+  lastCarryOverDate: string;
+  estimateFormat: EstimateFormat;
+  inferMissingEstimates: boolean;
+  exportFolder: string;
+  icsExportMode: ICalendarExportMode;
+  timeLogExportFormat: TimeLogFormat;
   [key: string]:
     | string
     | boolean
@@ -41,16 +92,32 @@ export interface DynamicTimetableSettings {
     | { category: string; color: string }[];
 }
 
+export type ViewMode = 'table' | 'timeline';
+
+export type TaskSourceType =
+  | 'activeFile'
+  | 'folder'
+  | 'files'
+  | 'tag'
+  | 'dailyNote';
+
 type ViewType = 'Timetable' | 'Statistics';
 
 export default class DynamicTimetable extends Plugin {
   settings: DynamicTimetableSettings;
   targetFile: TFile | null = null;
+  sourceFiles: TFile[] = [];
   tasks: Task[] = [];
+  historicalEstimates: Record<string, number> = {};
+  calendarEvents: CalendarEvent[] = [];
+  api: DynamicTimetableApi;
+  statusBar: TimetableStatusBar;
+  private tickIntervalId: number | null = null;
 
   private commandsManager: CommandsManager;
   timetableViewComponentRef: React.RefObject<TimetableViewComponentRef>;
   categoryBackgroundColors: Record<string, string> = {};
+  private noteOverridesKeys: Record<string, string> = {};
   isCategoryColorsReady: boolean = false;
 
   static DEFAULT_SETTINGS: DynamicTimetableSettings = {
@@ -61,11 +128,18 @@ export default class DynamicTimetable extends Plugin {
     showStartTimeInTaskName: true,
     showBufferTime: true,
     showProgressBar: true,
+    showStatusBar: true,
+    viewMode: 'table',
     intervalTime: 1,
     taskEstimateDelimiter: ';',
     startTimeDelimiter: '@',
+    taskSyntaxes: ['delimiter'],
     dateDelimiter: '',
     enableOverdueNotice: true,
+    startReminderMinutes: 0,
+    endReminderMinutes: 0,
+    desktopNotifications: false,
+    firedReminders: [],
     headerNames: ['Tasks', 'Estimate', 'Start', 'End'],
     showCompletedTasks: true,
     applyBackgroundColorByCategory: true,
@@ -73,17 +147,87 @@ export default class DynamicTimetable extends Plugin {
     categoryColors: [],
     categoryTransparency: 0.3,
     pathToDictionary: '',
+    calendarFile: '',
+    routineFile: '',
+    autoSchedule: false,
+    pomodoroMode: false,
+    pomodoroWorkMinutes: 25,
+    pomodoroShortBreakMinutes: 5,
+    pomodoroLongBreakMinutes: 15,
+    pomodoroLongBreakInterval: 4,
     showRemainingTime: true,
-    customUrlScheme: '',
+    taskStartHook: '',
+    taskCompleteHook: '',
+    taskInterruptHook: '',
+    overdueHook: '',
+    dayFinishedHook: '',
     showUntilRegex: '',
+    taskSource: 'activeFile',
+    sourceFolder: '',
+    sourceFiles: [],
+    sourceTag: '',
+    dailyNoteFolder: '',
+    dailyNoteFormat: 'YYYY-MM-DD',
+    autoCarryOver: false,
+    carryOverAfterDateDelimiter: false,
+    lastCarryOverDate: '',
+    estimateFormat: 'minutes',
+    inferMissingEstimates: false,
+    exportFolder: '',
+    icsExportMode: 'both',
+    timeLogExportFormat: 'csv',
   };
 
   async onload() {
     console.log('DynamicTimetable: onload');
     await this.initSettings();
+    this.api = new DynamicTimetableApi(this);
+    hookFunctions(this).registerHooks();
     this.initCommands();
     this.registerViews();
     await this.layoutReadyHandler();
+    this.registerInterval(
+      window.setInterval(() => this.checkDailyNoteChange(), 60 * 1000)
+    );
+    this.registerEvent(
+      this.app.vault.on('modify', async (file) => {
+        if (this.isSourceFile(file)) {
+          this.tasks = await taskFunctions(this).initializeTasks();
+        }
+      })
+    );
+    // Frontmatter overrides come from the metadata cache, which is updated
+    // after the file itself, so the views are refreshed when they change.
+    this.registerEvent(
+      this.app.metadataCache.on('changed', (file, data, cache) => {
+        if (!this.isSourceFile(file)) return;
+        const key = JSON.stringify(
+          getNoteOverrides(cache.frontmatter, DynamicTimetable.DEFAULT_SETTINGS)
+        );
+        if (key !== (this.noteOverridesKeys[file.path] || '{}')) {
+          this.noteOverridesKeys[file.path] = key;
+          this.updateOpenViews('Timetable');
+        }
+      })
+    );
+    this.statusBar = new TimetableStatusBar(this);
+    this.startTick();
+  }
+
+  // Checks for overdue tasks and reminders and refreshes the status bar.
+  // Restarted when the interval setting changes.
+  private startTick() {
+    if (this.tickIntervalId !== null) {
+      window.clearInterval(this.tickIntervalId);
+    }
+    const reminders = reminderFunctions(this);
+    this.tickIntervalId = this.registerInterval(
+      window.setInterval(() => {
+        this.api.checkOverdue();
+        this.statusBar.update();
+        reminders.checkReminders();
+      }, this.settings.intervalTime * 1000)
+    );
   }
 
   async initSettings() {
@@ -91,10 +235,25 @@ export default class DynamicTimetable extends Plugin {
       ...DynamicTimetable.DEFAULT_SETTINGS,
       ...(await this.loadData()),
     };
+    await this.migrateSettings();
     this.addSettingTab(new DynamicTimetableSettingTab(this.app, this));
     this.commandsManager = new CommandsManager(this);
   }
 
+  // `customUrlScheme` used to be opened for the next task after completing
+  // one, which the task start hook now does.
+  async migrateSettings() {
+    if (!('customUrlScheme' in this.settings)) {
+      return;
+    }
+    const { customUrlScheme } = this.settings;
+    if (typeof customUrlScheme === 'string' && !this.settings.taskStartHook) {
+      this.settings.taskStartHook = customUrlScheme;
+    }
+    delete this.settings.customUrlScheme;
+    await this.saveData(this.settings);
+  }
+
   async layoutReadyHandler() {
     if (this.app.workspace.layoutReady) {
       this.initTimetableView();
@@ -129,6 +288,12 @@ export default class DynamicTimetable extends Plugin {
       callback: () => this.commandsManager.toggleStatistics(),
     });
 
+    this.addCommand({
+      id: 'toggle-view-mode',
+      name: 'Switch Between Table and Timeline',
+      callback: () => this.commandsManager.toggleViewMode(),
+    });
+
     this.addCommand({
       id: 'init-timetable-view',
       name: 'Initialize Timetable View',
@@ -146,6 +311,54 @@ export default class DynamicTimetable extends Plugin {
       name: 'Interrupt Task',
       callback: () => this.commandsManager.interruptTask(),
     });
+
+    this.addCommand({
+      id: 'pause-task',
+      name: 'Pause Task',
+      callback: () => this.commandsManager.pauseTask(),
+    });
+
+    this.addCommand({
+      id: 'resume-task',
+      name: 'Resume Task',
+      callback: () => this.commandsManager.resumeTask(),
+    });
+
+    this.addCommand({
+      id: 'carry-over-tasks',
+      name: 'Carry Over Unfinished Tasks',
+      callback: () => this.commandsManager.carryOverTasks(),
+    });
+
+    this.addCommand({
+      id: 'undo-last-action',
+      name: 'Undo Last Complete or Interrupt',
+      callback: () => this.commandsManager.undoLastAction(),
+    });
+
+    this.addCommand({
+      id: 'insert-routine',
+      name: 'Insert Routine',
+      callback: () => this.commandsManager.insertRoutine(),
+    });
+
+    this.addCommand({
+      id: 'write-inferred-estimates',
+      name: 'Write Suggested Estimates',
+      callback: () => this.commandsManager.writeInferredEstimates(),
+    });
+
+    this.addCommand({
+      id: 'export-icalendar',
+      name: 'Export Timetable as iCalendar',
+      callback: () => this.commandsManager.exportICalendar(),
+    });
+
+    this.addCommand({
+      id: 'export-time-log',
+      name: 'Export Completed Task Log',
+      callback: () => this.commandsManager.exportTimeLog(),
+    });
   }
 
   async updateSetting<T extends keyof DynamicTimetableSettings>(
@@ -154,10 +367,14 @@ export default class DynamicTimetable extends Plugin {
   ): Promise<void> {
     this.settings[settingName] = newValue;
     await this.saveData(this.settings);
+    if (settingName === 'intervalTime') {
+      this.startTick();
+    }
     await this.updateOpenViews('Timetable');
   }
 
   async initTimetableView() {
+    await dailyNoteFunctions(this).autoCarryOver();
     this.isCategoryColorsReady = false;
     if (!this.isTimetableOpen()) {
       this.openTimetable();
@@ -195,6 +412,14 @@ export default class DynamicTimetable extends Plugin {
     }
   }
 
+  async checkDailyNoteChange() {
+    if (this.settings.taskSource !== 'dailyNote') return;
+    const todaysNote = dailyNoteFunctions(this).getTodaysNote();
+    if (todaysNote && todaysNote !== this.targetFile) {
+      await this.initTimetableView();
+    }
+  }
+
   isTimetableOpen(): boolean {
     return this.app.workspace.getLeavesOfType('Timetable').length > 0;
   }
@@ -218,6 +443,20 @@ export default class DynamicTimetable extends Plugin {
   }
 
   checkTargetFile() {
+    if (this.settings.taskSource !== 'activeFile') {
+      this.sourceFiles = this.resolveSourceFiles();
+      // The first source holds the YAML start time of the current task.
+      this.targetFile = this.sourceFiles[0] || null;
+      if (!this.targetFile) {
+        new Notice(
+          this.settings.taskSource === 'dailyNote'
+            ? "Today's daily note was not found"
+            : 'No Markdown files found for the configured task source'
+        );
+      }
+      return;
+    }
+
     const abstractFile =
       this.targetFile === null && this.settings.filePath
         ? this.app.vault.getAbstractFileByPath(this.settings.filePath)
@@ -228,12 +467,87 @@ export default class DynamicTimetable extends Plugin {
         this.targetFile = abstractFile;
         this.updateFilePathSetting(abstractFile.path);
       }
+      this.sourceFiles = [abstractFile];
     } else {
       this.targetFile = null;
+      this.sourceFiles = [];
       new Notice('No active file or active file is not a Markdown file');
     }
   }
 
+  resolveSourceFiles(): TFile[] {
+    const markdownFiles = this.app.vault.getMarkdownFiles();
+    switch (this.settings.taskSource) {
+      case 'folder': {
+        const folder = normalizePath(this.settings.sourceFolder);
+        return markdownFiles
+          .filter(
+            (file) => folder === '/' || file.path.startsWith(`${folder}/`)
+          )
+          .sort((a, b) => a.path.localeCompare(b.path));
+      }
+      case 'files':
+        return this.settings.sourceFiles
+          .map((path) =>
+            this.app.vault.getAbstractFileByPath(normalizePath(path))
+          )
+          .filter((file): file is TFile => file instanceof TFile);
+      case 'tag': {
+        const tag = this.settings.sourceTag.replace(/^#/, '');
+        if (!tag) return [];
+        return markdownFiles
+          .filter((file) => {
+            const cache = this.app.metadataCache.getFileCache(file);
+            const tags = cache ? getAllTags(cache) || [] : [];
+            return tags.some(
+              (t) => t === `#${tag}` || t.startsWith(`#${tag}/`)
+            );
+          })
+          .sort((a, b) => a.path.localeCompare(b.path));
+      }
+      case 'dailyNote': {
+        const todaysNote = dailyNoteFunctions(this).getTodaysNote();
+        return todaysNote ? [todaysNote] : [];
+      }
+      default:
+        return this.targetFile ? [this.targetFile] : [];
+    }
+  }
+
+  getCalendarFile(): TFile | null {
+    if (!this.settings.calendarFile) {
+      return null;
+    }
+    return this.app.metadataCache.getFirstLinkpathDest(
+      this.settings.calendarFile,
+      '/'
+    );
+  }
+
+  /**
+   * Returns the settings with the overrides from the frontmatter of a note,
+   * by default the target file.
+   */
+  getEffectiveSettings(
+    file: TFile | null = this.targetFile
+  ): DynamicTimetableSettings {
+    if (!file) {
+      return this.settings;
+    }
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    return {
+      ...this.settings,
+      ...getNoteOverrides(frontmatter, DynamicTimetable.DEFAULT_SETTINGS),
+    };
+  }
+
+  isSourceFile(file: TAbstractFile): boolean {
+    return (
+      this.sourceFiles.some((sourceFile) => sourceFile === file) ||
+      file === this.getCalendarFile()
+    );
+  }
+
   async updateFilePathSetting(newPath: string): Promise<void> {
     this.settings.filePath = newPath;
     await this.saveData(this.settings);